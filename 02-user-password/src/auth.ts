@@ -0,0 +1,156 @@
+// Users and passwords, kept in a UserAccount Durable Object per email, and sessions
+import { Context } from 'hono'
+import { deleteCookie, getSignedCookie, setSignedCookie } from 'hono/cookie'
+import type { AppEnv } from './routes/_app'
+import { isLoginLocked, recordFailedLogin, resetFailedLogins } from './login-attempts'
+import { userAccountFor } from './user-account'
+
+// The Workers runtime doesn't allow more PBKDF2 iterations than this
+const PBKDF2_ITERATIONS = 100_000
+const MIN_PASSWORD_LENGTH = 8
+
+const SESSION_COOKIE_NAME = '__Host-session'
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60 // 1 week
+
+type PasswordHash = {
+  salt: string
+  hash: string
+  iterations: number
+}
+
+export type User = {
+  email: string
+  password: PasswordHash
+  createdAt: number
+}
+
+export type LoginResult = { user: User; error?: undefined } | { user?: undefined; error: string }
+
+const encoder = new TextEncoder()
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
+async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS)
+  return { salt: toBase64(salt), hash: toBase64(hash), iterations: PBKDF2_ITERATIONS }
+}
+
+async function verifyPassword(password: string, { salt, hash, iterations }: PasswordHash) {
+  const expected = fromBase64(hash)
+  const actual = await pbkdf2(password, fromBase64(salt), iterations)
+  // Compare every byte, so the time taken doesn't reveal how much of the hash matched
+  let diff = expected.length ^ actual.length
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ actual[i]
+  }
+  return diff === 0
+}
+
+export async function getUser(env: Env, email: string) {
+  return userAccountFor(env, normalizeEmail(email)).getUser()
+}
+
+/**
+ * Creates a user, unless one with the same email already exists
+ */
+export async function registerUser(env: Env, email: string, password: string): Promise<LoginResult> {
+  email = normalizeEmail(email)
+  if (!email.includes('@')) {
+    return { error: 'Enter a valid email address' }
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters` }
+  }
+  if (await getUser(env, email)) {
+    return { error: 'An account with that email already exists' }
+  }
+
+  const user: User = { email, password: await hashPassword(password), createdAt: Date.now() }
+  // Another signup for the same email can get here first, in which case this one fails
+  if (!(await userAccountFor(env, email).create(user))) {
+    return { error: 'An account with that email already exists' }
+  }
+  return { user }
+}
+
+/**
+ * Checks a user's password. Too many failures in a row from the same IP lock logins to the account from that IP for a
+ * while, even with the right password, and even more failures from any IPs lock the whole account
+ */
+export async function login(env: Env, email: string, password: string, ip: string): Promise<LoginResult> {
+  email = normalizeEmail(email)
+  if (await isLoginLocked(env, email, ip)) {
+    return { error: 'Too many failed logins. Try again later' }
+  }
+
+  const user = await getUser(env, email)
+  let valid = false
+  if (user) {
+    valid = await verifyPassword(password, user.password)
+  } else {
+    // Unknown emails are hashed too, so they take as long as wrong passwords
+    await hashPassword(password)
+  }
+  if (!user || !valid) {
+    await recordFailedLogin(env, email, ip)
+    return { error: 'Invalid email or password' }
+  }
+
+  await resetFailedLogins(env, email, ip)
+  return { user }
+}
+
+/**
+ * The IP the request came from, which Cloudflare sets in CF-Connecting-IP
+ */
+export function getClientIp(c: Context<AppEnv>) {
+  return c.req.header('CF-Connecting-IP') ?? 'unknown'
+}
+
+/**
+ * Starts a session for the user, in a cookie signed with SESSION_SECRET
+ */
+export async function startSession(c: Context<AppEnv>, user: User) {
+  const session = JSON.stringify({ email: user.email, expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000 })
+  await setSignedCookie(c, SESSION_COOKIE_NAME, session, c.env.SESSION_SECRET, {
+    path: '/',
+    secure: true,
+    httpOnly: true,
+    sameSite: 'Lax',
+    maxAge: SESSION_TTL_SECONDS,
+  })
+}
+
+/**
+ * Returns the email of the logged in user, if the session cookie is valid and hasn't expired
+ */
+export async function getSessionEmail(c: Context<AppEnv>) {
+  const cookie = await getSignedCookie(c, c.env.SESSION_SECRET, SESSION_COOKIE_NAME)
+  if (!cookie) {
+    return undefined
+  }
+
+  const { email, expiresAt } = JSON.parse(cookie) as { email: string; expiresAt: number }
+  return expiresAt > Date.now() ? email : undefined
+}
+
+export function endSession(c: Context<AppEnv>) {
+  deleteCookie(c, SESSION_COOKIE_NAME, { path: '/', secure: true })
+}
@@ -4,6 +4,9 @@ import { DurableMCP } from 'workers-mcp'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
 
+export { LoginAttempts } from './login-attempts'
+export { UserAccount } from './user-account'
+
 export class MyMCP extends DurableMCP {
   server = new McpServer({
     name: 'Demo',
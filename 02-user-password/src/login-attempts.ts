@@ -0,0 +1,79 @@
+// Counts failed logins, in Durable Objects per email and client IP, and per email
+import { DurableObject } from 'cloudflare:workers'
+
+/**
+ * After `maxFailures` failed logins in a row, logins are locked for `lockoutSeconds`
+ */
+type FailureLimit = {
+  maxFailures: number
+  lockoutSeconds: number
+}
+
+// Someone guessing passwords from one address is locked out of the account quickly, without locking out its owner
+const IP_LIMIT: FailureLimit = { maxFailures: 5, lockoutSeconds: 15 * 60 } // 15 minutes
+// Failures from every address count towards a higher limit for the whole account, so rotating addresses doesn't give
+// an attacker unlimited guesses
+const ACCOUNT_LIMIT: FailureLimit = { maxFailures: 20, lockoutSeconds: 15 * 60 } // 15 minutes
+
+type FailedLogins = {
+  count: number
+  lockedUntil?: number
+}
+
+/**
+ * A Durable Object handles one call at a time, so unlike a counter in KV, concurrent failures can't overwrite each
+ * other's increments
+ */
+export class LoginAttempts extends DurableObject<Env> {
+  /**
+   * Whether logins are locked, after too many failures
+   */
+  async isLocked() {
+    const failures = await this.ctx.storage.get<FailedLogins>('failures')
+    return !!failures?.lockedUntil && failures.lockedUntil > Date.now()
+  }
+
+  async recordFailure({ maxFailures, lockoutSeconds }: FailureLimit) {
+    const failures = (await this.ctx.storage.get<FailedLogins>('failures')) ?? { count: 0 }
+    const count = failures.count + 1
+    const next: FailedLogins = count >= maxFailures ? { count: 0, lockedUntil: Date.now() + lockoutSeconds * 1000 } : { count }
+    await this.ctx.storage.put('failures', next)
+    // Forget the failures once the last one is lockoutSeconds old
+    await this.ctx.storage.setAlarm(Date.now() + lockoutSeconds * 1000)
+  }
+
+  async reset() {
+    await this.ctx.storage.deleteAll()
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll()
+  }
+}
+
+/**
+ * The counters a login to the account from this IP counts towards, each with its limit
+ */
+function countersFor(env: Env, email: string, ip: string) {
+  const counter = (name: string, limit: FailureLimit) => ({
+    stub: env.LOGIN_ATTEMPTS.get(env.LOGIN_ATTEMPTS.idFromName(name)),
+    limit,
+  })
+  return [counter(`ip:${email}:${ip}`, IP_LIMIT), counter(`account:${email}`, ACCOUNT_LIMIT)]
+}
+
+/**
+ * Whether logins to the account from this IP are locked, by too many failures from the IP or for the whole account
+ */
+export async function isLoginLocked(env: Env, email: string, ip: string) {
+  const locked = await Promise.all(countersFor(env, email, ip).map(({ stub }) => stub.isLocked()))
+  return locked.some(Boolean)
+}
+
+export async function recordFailedLogin(env: Env, email: string, ip: string) {
+  await Promise.all(countersFor(env, email, ip).map(({ stub, limit }) => stub.recordFailure(limit)))
+}
+
+export async function resetFailedLogins(env: Env, email: string, ip: string) {
+  await Promise.all(countersFor(env, email, ip).map(({ stub }) => stub.reset()))
+}
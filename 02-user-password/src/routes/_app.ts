@@ -7,9 +7,14 @@ export type Bindings = Env & {
 
 type Variables = {
   isLoggedIn: boolean
+  // The logged in user's email, from the session cookie
+  userEmail?: string
 }
-const app = new Hono<{
+
+export type AppEnv = {
   Bindings: Bindings
   Variables: Variables
-}>()
+}
+
+const app = new Hono<AppEnv>()
 export default app
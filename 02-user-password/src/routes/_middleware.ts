@@ -1,8 +1,10 @@
 import app from './_app'
+import { getSessionEmail } from '../auth'
 
-// Middleware to check login status (placeholder using random)
+// Middleware to check login status from the signed session cookie
 app.use('*', async (c, next) => {
-  // const isLoggedIn = Math.random() > 0.5
-  c.set('isLoggedIn', true)
+  const userEmail = await getSessionEmail(c)
+  c.set('isLoggedIn', userEmail !== undefined)
+  c.set('userEmail', userEmail)
   await next()
 })
@@ -3,28 +3,51 @@ import { html } from 'hono/html'
 import { layout } from '../utils'
 import app from './_app'
 import { AuthRequest } from 'workers-oauth-provider'
+import { getClientIp, login, startSession } from '../auth'
 
 app.post('/approve', async (c) => {
   const body = await c.req.parseBody()
   const action = body.action as string
   const oauthReqInfo = JSON.parse(body.oauthReqInfo as string) as AuthRequest
-  const email = body.email as string
 
   if (!oauthReqInfo) {
     return c.html('INVALID LOGIN')
   }
 
+  // The body holds the password, so it isn't logged
   console.log('Approval route called:', {
     action,
     isLoggedIn: c.get('isLoggedIn'),
-    body,
   })
 
+  // Users who aren't logged in yet send their credentials with the approval
+  let email = c.get('userEmail')
+  if (action === 'login_approve') {
+    const { user, error } = await login(c.env, body.email as string, body.password as string, getClientIp(c))
+    if (!user) {
+      const content = html`
+        <div class="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md text-center">
+          <h1 class="text-2xl font-heading font-bold mb-4 text-gray-900">${error}</h1>
+          <a
+            href="javascript:history.back()"
+            class="inline-block py-2 px-4 bg-primary text-white rounded-md font-medium hover:bg-primary/90 transition-colors"
+          >
+            Try again
+          </a>
+        </div>
+      `
+      return c.html(layout(await content, 'MCP Remote Auth Demo - Authorization Status', false), 401)
+    }
+
+    await startSession(c, user)
+    email = user.email
+  }
+
   let message: string
   let status: string
   let redirectUrl: string
 
-  if (action === 'approve' || action === 'login_approve') {
+  if ((action === 'approve' || action === 'login_approve') && email) {
     message = 'Authorization approved!'
     status = 'success'
 
@@ -32,7 +55,7 @@ app.post('/approve', async (c) => {
       request: oauthReqInfo,
       userId: email,
       metadata: {
-        label: 'Test User',
+        label: email,
       },
       scope: oauthReqInfo.scope,
       props: {
@@ -40,6 +63,11 @@ app.post('/approve', async (c) => {
       },
     })
     redirectUrl = redirectTo
+  } else if (action === 'approve') {
+    // The session expired, or was never started, since the approval form was shown
+    message = 'Log in to approve this request.'
+    status = 'error'
+    redirectUrl = '/login'
   } else {
     message = 'Authorization rejected.'
     status = 'error'
@@ -7,6 +7,7 @@ app.get('/authorize', async (c) => {
   const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw)
 
   const isLoggedIn = c.get('isLoggedIn')
+  const userEmail = c.get('userEmail')
 
   const oauthScopes = [
     { name: 'read_profile', description: 'Read your basic profile information' },
@@ -39,7 +40,7 @@ app.get('/authorize', async (c) => {
         <input type="hidden" name="oauthReqInfo" value="${JSON.stringify(oauthReqInfo)}" />
         ${isLoggedIn
           ? html`
-              <input type="hidden" name="email" value="user@example.com" />
+              <p class="text-gray-600">Logged in as <span class="font-medium">${userEmail}</span></p>
               <button
                 type="submit"
                 name="action"
@@ -88,6 +89,7 @@ app.get('/authorize', async (c) => {
               >
                 Log in and Approve
               </button>
+              <p class="text-gray-600 text-sm">No account yet? <a href="/signup" class="text-primary font-medium">Sign up</a> first</p>
               <button
                 type="submit"
                 name="action"
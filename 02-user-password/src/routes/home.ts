@@ -13,7 +13,7 @@ A professional, cheerful platform for all your needs.
 
 Our platform provides seamless integration with various services while maintaining the highest standards of security and user experience.
 
-We believe in simplicity and efficiency. [Learn more](/about) about our philosophy or [register now](/register) to get started.
+We believe in simplicity and efficiency. [Learn more](/about) about our philosophy or [sign up now](/signup) to get started.
 
 > "The best way to predict the future is to create it." — Peter Drucker
 `
@@ -4,5 +4,7 @@ import './_middleware'
 import './home'
 import './authorize'
 import './approve'
+import './login'
+import './signup'
 
 export default app
@@ -0,0 +1,65 @@
+// Routes: Log in / Log out
+import { html } from 'hono/html'
+import { layout } from '../utils'
+import app from './_app'
+import { endSession, getClientIp, login, startSession } from '../auth'
+
+export const credentialsForm = (action: string, submitLabel: string, error?: string) => html`
+  <form action="${action}" method="POST" class="space-y-4">
+    ${error ? html`<p class="p-3 bg-red-100 text-red-800 rounded-md">${error}</p>` : ''}
+    <div>
+      <label for="email" class="block text-sm font-medium text-gray-700 mb-1">Email</label>
+      <input
+        type="email"
+        id="email"
+        name="email"
+        required
+        class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+      />
+    </div>
+    <div>
+      <label for="password" class="block text-sm font-medium text-gray-700 mb-1">Password</label>
+      <input
+        type="password"
+        id="password"
+        name="password"
+        required
+        class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+      />
+    </div>
+    <button type="submit" class="w-full py-3 px-4 bg-primary text-white rounded-md font-medium hover:bg-primary/90 transition-colors">
+      ${submitLabel}
+    </button>
+  </form>
+`
+
+const loginPage = (error?: string) => html`
+  <div class="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md">
+    <h1 class="text-2xl font-heading font-bold mb-6 text-gray-900">Log in</h1>
+    ${credentialsForm('/login', 'Log in', error)}
+    <p class="mt-6 text-gray-600 text-sm">No account yet? <a href="/signup" class="text-primary font-medium">Sign up</a></p>
+  </div>
+`
+
+app.get('/login', async (c) => {
+  if (c.get('isLoggedIn')) {
+    return c.redirect('/')
+  }
+  return c.html(layout(await loginPage(), 'MCP Remote Auth Demo - Log in', false))
+})
+
+app.post('/login', async (c) => {
+  const body = await c.req.parseBody()
+  const { user, error } = await login(c.env, body.email as string, body.password as string, getClientIp(c))
+  if (!user) {
+    return c.html(layout(await loginPage(error), 'MCP Remote Auth Demo - Log in', false), 401)
+  }
+
+  await startSession(c, user)
+  return c.redirect('/')
+})
+
+app.post('/logout', async (c) => {
+  endSession(c)
+  return c.redirect('/')
+})
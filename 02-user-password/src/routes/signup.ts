@@ -0,0 +1,33 @@
+// Route: Sign up
+// Not /register, since that is the OAuth provider's client registration endpoint
+import { html } from 'hono/html'
+import { layout } from '../utils'
+import app from './_app'
+import { registerUser, startSession } from '../auth'
+import { credentialsForm } from './login'
+
+const signupPage = (error?: string) => html`
+  <div class="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md">
+    <h1 class="text-2xl font-heading font-bold mb-6 text-gray-900">Sign up</h1>
+    ${credentialsForm('/signup', 'Create account', error)}
+    <p class="mt-6 text-gray-600 text-sm">Already have an account? <a href="/login" class="text-primary font-medium">Log in</a></p>
+  </div>
+`
+
+app.get('/signup', async (c) => {
+  if (c.get('isLoggedIn')) {
+    return c.redirect('/')
+  }
+  return c.html(layout(await signupPage(), 'MCP Remote Auth Demo - Sign up', false))
+})
+
+app.post('/signup', async (c) => {
+  const body = await c.req.parseBody()
+  const { user, error } = await registerUser(c.env, body.email as string, body.password as string)
+  if (!user) {
+    return c.html(layout(await signupPage(error), 'MCP Remote Auth Demo - Sign up', false), 400)
+  }
+
+  await startSession(c, user)
+  return c.redirect('/')
+})
@@ -0,0 +1,29 @@
+// Each user's account, in a Durable Object named by their email
+import { DurableObject } from 'cloudflare:workers'
+import type { User } from './auth'
+
+/**
+ * A Durable Object handles one call at a time, so checking whether an account exists and creating it can't interleave
+ * with another signup for the same email. With KV, which is eventually consistent and caches misses, both signups could
+ * pass the check and the second would overwrite the first account
+ */
+export class UserAccount extends DurableObject<Env> {
+  async getUser() {
+    return (await this.ctx.storage.get<User>('user')) ?? null
+  }
+
+  /**
+   * Stores the user, unless the account already exists. Returns whether it was created
+   */
+  async create(user: User) {
+    if (await this.ctx.storage.get<User>('user')) {
+      return false
+    }
+    await this.ctx.storage.put('user', user)
+    return true
+  }
+}
+
+export function userAccountFor(env: Env, email: string) {
+  return env.USER_ACCOUNTS.get(env.USER_ACCOUNTS.idFromName(email))
+}
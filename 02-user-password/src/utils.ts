@@ -140,9 +140,12 @@ export const layout = (content: string, title: string, isLoggedIn: boolean) => h
           <a href="/" class="text-xl font-heading font-bold text-primary hover:text-primary/80 transition-colors">MCP Remote Auth Demo</a>
           <div>
             ${isLoggedIn
-              ? html`<span class="px-4 py-2 bg-green-100 text-green-800 rounded-md">Logged in</span>`
+              ? html`<form action="/logout" method="POST" class="inline-flex items-center gap-2">
+                  <span class="px-4 py-2 bg-green-100 text-green-800 rounded-md">Logged in</span>
+                  <button type="submit" class="px-4 py-2 text-gray-600 hover:text-gray-900 transition-colors">Log out</button>
+                </form>`
               : html`<a
-                  href="/register"
+                  href="/login"
                   class="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors font-medium"
                   >Login</a
                 >`}
@@ -2,5 +2,8 @@
 
 interface Env {
 	OAUTH_KV: KVNamespace;
+	SESSION_SECRET: string;
 	MY_MCP: DurableObjectNamespace<import("./src/index").MyMCP>;
+	LOGIN_ATTEMPTS: DurableObjectNamespace<import("./src/index").LoginAttempts>;
+	USER_ACCOUNTS: DurableObjectNamespace<import("./src/index").UserAccount>;
 }
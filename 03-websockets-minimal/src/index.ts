@@ -6,27 +6,31 @@ export interface Env {
 	MCP_DO: DurableObjectNamespace;
 }
 
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
 export class MyMcpServerDurableObject extends DurableObject {
-	server: McpServer;
-	transport: WSServerTransport;
+	// Every WebSocket gets its own server and transport, so clients sharing this
+	// Durable Object each have their own session and JSON-RPC id space
+	sessions = new Map<string, { server: McpServer; transport: WSServerTransport }>();
 
-	constructor(state: DurableObjectState, env: Env) {
-		super(state, env);
+	// Sessions that don't receive a message for this long are closed
+	idleTimeoutMs = IDLE_TIMEOUT_MS;
 
-		this.server = new McpServer({
+	createServer(): McpServer {
+		const server = new McpServer({
 			name: 'Demo',
 			version: '1.0.0',
 		});
 
 		// Define the add tool with proper typing
-		this.server.tool('add', 'Add two numbers', async (extra: any) => {
+		server.tool('add', 'Add two numbers', async (extra: any) => {
 			const { a, b } = extra.params as { a: number; b: number };
 			return {
 				content: [{ type: 'text', text: String(a + b) }],
 			};
 		});
 
-		this.server.resource('greeting', new ResourceTemplate('greeting://{name}', { list: undefined }), async (uri, { name }) => ({
+		server.resource('greeting', new ResourceTemplate('greeting://{name}', { list: undefined }), async (uri, { name }) => ({
 			contents: [
 				{
 					uri: uri.href,
@@ -35,24 +39,69 @@ export class MyMcpServerDurableObject extends DurableObject {
 			],
 		}));
 
-		this.transport = new WSServerTransport();
+		return server;
 	}
 
 	override async fetch(request: Request) {
 		if (request.headers.get('Upgrade') === 'websocket') {
-			await this.server.connect(this.transport);
-			return this.transport.upgradeResponse;
+			const transport = new WSServerTransport();
+			const error = transport.validateUpgradeRequest(request);
+			if (error) {
+				return error;
+			}
+
+			const server = this.createServer();
+			transport.logger.attach(server);
+			await server.connect(transport);
+			this.sessions.set(transport.sessionId, { server, transport });
+			// Connecting replaces the transport's onclose, so listen on the server instead
+			server.server.onclose = () => {
+				this.sessions.delete(transport.sessionId);
+			};
+			await this.scheduleIdleCheck();
+
+			return transport.upgradeResponse;
 		}
 
 		return new Response('Expected WebSocket connection', { status: 400 });
 	}
+
+	// Closes the sessions that have been idle for idleTimeoutMs, then waits for the next one that could be
+	async alarm() {
+		const now = Date.now();
+		for (const { transport } of this.sessions.values()) {
+			if (now - transport.lastActivityAt >= this.idleTimeoutMs) {
+				// The server's onclose removes the session from the map
+				await transport.close(1000, 'Idle timeout');
+			}
+		}
+		await this.scheduleIdleCheck();
+	}
+
+	private async scheduleIdleCheck() {
+		if (this.sessions.size === 0) {
+			return;
+		}
+		const lastActivityAt = Math.min(...[...this.sessions.values()].map(({ transport }) => transport.lastActivityAt));
+		await this.ctx.storage.setAlarm(lastActivityAt + this.idleTimeoutMs);
+	}
 }
 
 export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
+		// Clients connecting to the same room share a Durable Object, but each WebSocket still gets its own MCP session
+		const room = url.searchParams.get('room');
 		const sessionId = url.searchParams.get('sessionId');
-		let object = env.MCP_DO.get(sessionId ? env.MCP_DO.idFromString(sessionId) : env.MCP_DO.newUniqueId());
+		let id: DurableObjectId;
+		if (room) {
+			id = env.MCP_DO.idFromName(`room:${room}`);
+		} else if (sessionId) {
+			id = env.MCP_DO.idFromString(sessionId);
+		} else {
+			id = env.MCP_DO.newUniqueId();
+		}
+		let object = env.MCP_DO.get(id);
 		return object.fetch(request);
 	},
 } satisfies ExportedHandler<Env>;
@@ -1,15 +1,14 @@
 import OAuthProvider from '@cloudflare/workers-oauth-provider'
 import { McpAgent } from 'agents/mcp'
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
 import { Octokit } from 'octokit'
 import { GitHubHandler } from './github-handler'
 import { Props } from './utils'
+import { abortable, progressReporter } from './progress'
 
-const ALLOWED_USERNAMES = new Set<string>([
-  // Add GitHub usernames of users who should have access to the image generation tool
-  'geelen',
-])
+// How often each session reads its user's permissions from KV, so that changes apply without reconnecting
+const PERMISSIONS_REFRESH_INTERVAL_SECONDS = 60 // 1 minute
 
 export class MyMCP extends McpAgent<Env, null, Props> {
   server = new McpServer({
@@ -17,6 +16,9 @@ export class MyMCP extends McpAgent<Env, null, Props> {
     version: '1.0.0',
   })
 
+  // Tools that only some users can use, by name. They are enabled or disabled by refreshPermissions()
+  restrictedTools: Record<string, RegisteredTool> = {}
+
   async init() {
     // Hello, world!
     this.server.tool('add', 'Add two numbers the way only MCP can', { a: z.number(), b: z.number() }, async ({ a, b }) => ({
@@ -24,69 +26,116 @@ export class MyMCP extends McpAgent<Env, null, Props> {
     }))
 
     // Use the upstream access token to facilitate tools
-    this.server.tool('userInfoOctokit', 'Get user info from GitHub, via Octokit', {}, async () => {
+    this.server.tool('userInfoOctokit', 'Get user info from GitHub, via Octokit', {}, async (_args, { signal }) => {
       const octokit = new Octokit({ auth: this.props.accessToken })
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(await octokit.rest.users.getAuthenticated()),
+            // Octokit passes the signal on to fetch, so cancelling the tool call cancels the request to GitHub
+            text: JSON.stringify(await octokit.rest.users.getAuthenticated({ request: { signal } })),
           },
         ],
       }
     })
 
-    // Dynamically add tools based on the user's login. In this case, I want to limit
-    // access to my Image Generation tool to just me
-    if (ALLOWED_USERNAMES.has(this.props.login)) {
-      this.server.tool(
-        'generateImage',
-        'Generate an image using the `flux-1-schnell` model. Works best with 8 steps.',
-        {
-          prompt: z.string().describe('A text description of the image you want to generate.'),
-          steps: z
-            .number()
-            .min(4)
-            .max(8)
-            .default(4)
-            .describe(
-              'The number of diffusion steps; higher values can improve quality but take longer. Must be between 4 and 8, inclusive.',
-            ),
-          size: z.number().default(640).describe(`The width/height of the resulting image, in pixels`),
-        },
-        async ({ prompt, steps, size }) => {
-          const response = await this.env.AI.run('@cf/black-forest-labs/flux-1-schnell', {
+    // Access to the Image Generation tool is limited to the users allowed it in KV.
+    // It starts disabled, so it only shows up once their permissions have been read
+    this.restrictedTools.generateImage = this.server.tool(
+      'generateImage',
+      'Generate an image using the `flux-1-schnell` model. Works best with 8 steps.',
+      {
+        prompt: z.string().describe('A text description of the image you want to generate.'),
+        steps: z
+          .number()
+          .min(4)
+          .max(8)
+          .default(4)
+          .describe(
+            'The number of diffusion steps; higher values can improve quality but take longer. Must be between 4 and 8, inclusive.',
+          ),
+        size: z.number().default(640).describe(`The width/height of the resulting image, in pixels`),
+      },
+      async ({ prompt, steps, size }, extra) => {
+        // Generating and transforming the image takes a few seconds, so report each step and stop early if the
+        // client cancels the request. Neither the AI nor the Images binding accepts an AbortSignal, so a cancelled
+        // request stops waiting for them, but the work they already started runs to completion
+        const reportProgress = progressReporter(extra)
+        await reportProgress(0, 3)
+
+        const response = await abortable(
+          this.env.AI.run('@cf/black-forest-labs/flux-1-schnell', {
             prompt,
             steps,
-          })
-
-          // Convert base64 to Uint8Array
-          const imageData = Uint8Array.from(atob(response.image!), (c) => c.charCodeAt(0))
-
-          // Create a ReadableStream from the Uint8Array using ReadableStream.from
-          const imageStream = ReadableStream.from([imageData])
-
-          // Transform the image using Cloudflare Images
-          const transformedImageResponse = await (
-            await this.env.IMAGES.input(imageStream).transform({ width: size }).output({ format: 'image/jpeg', quality: 80 })
-          ).response()
-
-          // Convert ArrayBuffer to base64 safely (chunked conversion to avoid stack overflow)
-          const transformedImageArrayBuffer = await transformedImageResponse.arrayBuffer()
-          const bytes = new Uint8Array(transformedImageArrayBuffer)
-          let binary = ''
-          const chunkSize = 1024
-          for (let i = 0; i < bytes.byteLength; i += chunkSize) {
-            const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.byteLength))
-            binary += String.fromCharCode.apply(null, chunk)
-          }
-          const transformedImageBase64 = btoa(binary)
-
-          return {
-            content: [{ type: 'image', data: transformedImageBase64, mimeType: 'image/jpeg' }],
-          }
-        },
-      )
+          }),
+          extra.signal,
+        )
+        await reportProgress(1, 3)
+
+        // Convert base64 to Uint8Array
+        const imageData = Uint8Array.from(atob(response.image!), (c) => c.charCodeAt(0))
+
+        // Create a ReadableStream from the Uint8Array using ReadableStream.from
+        const imageStream = ReadableStream.from([imageData])
+
+        // Transform the image using Cloudflare Images
+        const transformedImageResponse = await abortable(
+          this.env.IMAGES.input(imageStream).transform({ width: size }).output({ format: 'image/jpeg', quality: 80 }),
+          extra.signal,
+        ).then((result) => result.response())
+        await reportProgress(2, 3)
+
+        // Convert ArrayBuffer to base64 safely (chunked conversion to avoid stack overflow)
+        const transformedImageArrayBuffer = await transformedImageResponse.arrayBuffer()
+        const bytes = new Uint8Array(transformedImageArrayBuffer)
+        let binary = ''
+        const chunkSize = 1024
+        for (let i = 0; i < bytes.byteLength; i += chunkSize) {
+          const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.byteLength))
+          binary += String.fromCharCode.apply(null, chunk)
+        }
+        const transformedImageBase64 = btoa(binary)
+        await reportProgress(3, 3)
+
+        return {
+          content: [{ type: 'image', data: transformedImageBase64, mimeType: 'image/jpeg' }],
+        }
+      },
+    )
+    this.restrictedTools.generateImage.disable()
+
+    await this.refreshPermissions()
+    // init() runs again whenever the Durable Object starts, so only schedule a refresh if one isn't already
+    if (!this.getSchedules().some(({ callback }) => callback === 'onPermissionsRefresh')) {
+      await this.schedule(PERMISSIONS_REFRESH_INTERVAL_SECONDS, 'onPermissionsRefresh')
+    }
+  }
+
+  // Enables the restricted tools listed for this user in KV under `tools:<login>`, and disables the rest.
+  // The McpServer sends `notifications/tools/list_changed` to the client whenever one changes.
+  async refreshPermissions() {
+    const allowedTools = new Set((await this.env.PERMISSIONS_KV.get<string[]>(`tools:${this.props.login}`, 'json')) ?? [])
+    for (const [name, tool] of Object.entries(this.restrictedTools)) {
+      if (allowedTools.has(name) && !tool.enabled) {
+        tool.enable()
+      } else if (!allowedTools.has(name) && tool.enabled) {
+        tool.disable()
+      }
+    }
+  }
+
+  // Called by the Agent's scheduler, which runs every task that is due when the Durable Object's alarm fires
+  async onPermissionsRefresh() {
+    // The schedule can wake the Durable Object before init() has run again
+    if (Object.keys(this.restrictedTools).length === 0) {
+      return
+    }
+
+    await this.refreshPermissions()
+
+    // Stop checking once the client has disconnected. init() starts again when the session does
+    if (this.getWebSocket()) {
+      await this.schedule(PERMISSIONS_REFRESH_INTERVAL_SECONDS, 'onPermissionsRefresh')
     }
   }
 }
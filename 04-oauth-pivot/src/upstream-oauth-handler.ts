@@ -0,0 +1,211 @@
+import type { AuthRequest, OAuthHelpers } from '@cloudflare/workers-oauth-provider'
+import { Context, Hono } from 'hono'
+import { getCookie } from 'hono/cookie'
+import { ClientAuthMethod, fetchUpstreamAuthToken, getUpstreamAuthorizeUrl, UpstreamTokenResponse } from './utils'
+
+type Bindings = Env & { OAUTH_PROVIDER: OAuthHelpers }
+
+// The state cookie binds a login to the browser that started it
+const STATE_COOKIE_NAME = '__Host-upstream-oauth-state'
+const STATE_TTL_SECONDS = 600 // 10 minutes
+
+/**
+ * Kept in KV under the state parameter while the user is away at the upstream service
+ */
+type LoginState = {
+  oauthReqInfo: AuthRequest
+  codeVerifier?: string
+}
+
+function stateCookie(value: string, maxAge: number) {
+  return `${STATE_COOKIE_NAME}=${value}; Max-Age=${maxAge}; Path=/; HttpOnly; Secure; SameSite=Lax`
+}
+
+function base64UrlEncode(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 code challenge
+ */
+async function createPkcePair() {
+  const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)))
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) }
+}
+
+/**
+ * Everything that differs between upstream OAuth providers. Adding another provider means writing one of these
+ */
+export interface UpstreamOAuthConfig<P extends Record<string, any>, U> {
+  /**
+   * The upstream service's authorization and token endpoints
+   */
+  authorizeUrl: string
+  tokenUrl: string
+
+  /**
+   * The scopes requested from the upstream service
+   */
+  scope: string
+
+  /**
+   * Any other parameters to send to the authorization endpoint
+   */
+  authorizeParams?: Record<string, string>
+
+  clientId: (env: Env) => string
+  clientSecret: (env: Env) => string
+
+  /**
+   * How the client credentials are sent to the token endpoint. Defaults to the request body
+   */
+  clientAuthMethod?: ClientAuthMethod
+
+  /**
+   * Whether to send a PKCE code challenge to the upstream service. Only turn this on for services that support it
+   */
+  pkce?: boolean
+
+  /**
+   * Where the upstream service redirects back to. Defaults to /callback
+   */
+  callbackPath?: string
+
+  /**
+   * Looks up the user who authorized, from the token response or the upstream API
+   */
+  fetchUser: (token: UpstreamTokenResponse, env: Env) => Promise<U>
+
+  /**
+   * The id of the user the MCP client's grant belongs to, and the label it is listed with
+   */
+  getGrant: (user: U) => { userId: string; label: string }
+
+  /**
+   * Builds the props that are encrypted in the MCP client's token and passed to the MCP server
+   */
+  getProps: (user: U, token: UpstreamTokenResponse, env: Env) => P | Promise<P>
+
+  /**
+   * Called before redirecting upstream. Returning a response, e.g. an approval dialog, shows it instead
+   */
+  approve?: (request: Request, oauthReqInfo: AuthRequest, env: Bindings) => Promise<Response | undefined>
+}
+
+/**
+ * Handles the "redirect upstream → exchange code → fetch user → completeAuthorization" flow for any upstream OAuth
+ * provider. The MCP client's authorization request is kept in KV while the user is away at the upstream service, and
+ * the state parameter holds its key. The state is random, expires after 10 minutes, can only be used once, and is only
+ * accepted from the browser that was given it in a cookie, so the callback can't be forged or replayed
+ */
+export class UpstreamOAuthHandler<P extends Record<string, any>, U> extends Hono<{ Bindings: Bindings }> {
+  private callbackPath: string
+
+  constructor(private config: UpstreamOAuthConfig<P, U>) {
+    super()
+    this.callbackPath = config.callbackPath ?? '/callback'
+
+    this.get('/authorize', async (c) => {
+      const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw)
+      if (!oauthReqInfo.clientId) {
+        return c.text('Invalid request', 400)
+      }
+
+      const response = await this.config.approve?.(c.req.raw, oauthReqInfo, c.env)
+      if (response) {
+        return response
+      }
+      return this.redirectToUpstream(c.req.raw, c.env, oauthReqInfo)
+    })
+
+    this.get(this.callbackPath, (c) => this.handleCallback(c))
+  }
+
+  /**
+   * Sends the user to the upstream service to authorize, with any extra headers (e.g. Set-Cookie)
+   */
+  async redirectToUpstream(request: Request, env: Env, oauthReqInfo: AuthRequest, headers: Record<string, string> = {}) {
+    const state = crypto.randomUUID()
+    const params = { ...this.config.authorizeParams }
+    const loginState: LoginState = { oauthReqInfo }
+    if (this.config.pkce) {
+      const { codeVerifier, codeChallenge } = await createPkcePair()
+      loginState.codeVerifier = codeVerifier
+      Object.assign(params, { code_challenge: codeChallenge, code_challenge_method: 'S256' })
+    }
+    await env.OAUTH_KV.put(`login:${state}`, JSON.stringify(loginState), { expirationTtl: STATE_TTL_SECONDS })
+
+    const response = new Response(null, {
+      status: 302,
+      headers: {
+        ...headers,
+        location: getUpstreamAuthorizeUrl({
+          upstream_url: this.config.authorizeUrl,
+          scope: this.config.scope,
+          client_id: this.config.clientId(env),
+          redirect_uri: new URL(this.callbackPath, request.url).href,
+          state,
+          params,
+        }),
+      },
+    })
+    // Appended, since the headers passed in can already set a cookie
+    response.headers.append('Set-Cookie', stateCookie(state, STATE_TTL_SECONDS))
+    return response
+  }
+
+  /**
+   * Exchanges the code for a token, then completes the MCP client's authorization with the props built from the user
+   * and token. It ends by redirecting the user back to the MCP client's callback URL
+   */
+  private async handleCallback(c: Context<{ Bindings: Bindings }>) {
+    const state = c.req.query('state')
+    if (!state) {
+      return c.text('Missing state', 400)
+    }
+    // A state from a login this browser didn't start, e.g. a link from an attacker, is rejected
+    if (getCookie(c, STATE_COOKIE_NAME) !== state) {
+      return c.text('Invalid state', 400)
+    }
+    const loginState = await c.env.OAUTH_KV.get<LoginState>(`login:${state}`, 'json')
+    if (!loginState?.oauthReqInfo.clientId) {
+      return c.text('Invalid state', 400)
+    }
+    // Each state can only be used once
+    await c.env.OAUTH_KV.delete(`login:${state}`)
+    const { oauthReqInfo, codeVerifier } = loginState
+
+    const [token, errResponse] = await fetchUpstreamAuthToken({
+      upstream_url: this.config.tokenUrl,
+      client_id: this.config.clientId(c.env),
+      client_secret: this.config.clientSecret(c.env),
+      client_auth_method: this.config.clientAuthMethod,
+      code: c.req.query('code'),
+      redirect_uri: new URL(this.callbackPath, c.req.url).href,
+      code_verifier: codeVerifier,
+    })
+    if (errResponse) return errResponse
+
+    const user = await this.config.fetchUser(token, c.env)
+    const { userId, label } = this.config.getGrant(user)
+
+    // Return back to the MCP client a new token
+    const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
+      request: oauthReqInfo,
+      userId,
+      metadata: { label },
+      scope: oauthReqInfo.scope,
+      // This will be available on this.props inside the MCP server
+      props: await this.config.getProps(user, token, c.env),
+    })
+
+    return new Response(null, {
+      status: 302,
+      headers: { location: redirectTo, 'Set-Cookie': stateCookie('', 0) },
+    })
+  }
+}
@@ -6,6 +6,7 @@
  * @param {string} options.client_id - The client ID of the application.
  * @param {string} options.redirect_uri - The redirect URI of the application.
  * @param {string} [options.state] - The state parameter.
+ * @param {Record<string, string>} [options.params] - Any other parameters the upstream service needs.
  *
  * @returns {string} The authorization URL.
  */
@@ -15,12 +16,14 @@ export function getUpstreamAuthorizeUrl({
   scope,
   redirect_uri,
   state,
+  params = {},
 }: {
   upstream_url: string
   client_id: string
   scope: string
   redirect_uri: string
   state?: string
+  params?: Record<string, string>
 }) {
   const upstream = new URL(upstream_url)
   upstream.searchParams.set('client_id', client_id)
@@ -28,9 +31,23 @@ export function getUpstreamAuthorizeUrl({
   upstream.searchParams.set('scope', scope)
   if (state) upstream.searchParams.set('state', state)
   upstream.searchParams.set('response_type', 'code')
+  for (const [key, value] of Object.entries(params)) {
+    upstream.searchParams.set(key, value)
+  }
   return upstream.href
 }
 
+/**
+ * How the client credentials are sent to the token endpoint: in the request body, or as HTTP Basic auth
+ */
+export type ClientAuthMethod = 'client_secret_post' | 'client_secret_basic'
+
+/**
+ * The upstream service's token response. Besides the access token it can hold a refresh token, when the token
+ * expires, or (for some services) details of the user
+ */
+export type UpstreamTokenResponse = Record<string, any> & { access_token: string }
+
 /**
  * Fetches an authorization token from an upstream service.
  *
@@ -40,8 +57,10 @@ export function getUpstreamAuthorizeUrl({
  * @param {string} options.code - The authorization code.
  * @param {string} options.redirect_uri - The redirect URI of the application.
  * @param {string} options.upstream_url - The token endpoint URL of the upstream service.
+ * @param {ClientAuthMethod} [options.client_auth_method] - How the client credentials are sent. Defaults to the request body.
+ * @param {string} [options.code_verifier] - The PKCE code verifier, if a code challenge was sent with the authorization request.
  *
- * @returns {Promise<[string, null] | [null, Response]>} A promise that resolves to an array containing the access token or an error response.
+ * @returns {Promise<[UpstreamTokenResponse, null] | [null, Response]>} A promise that resolves to an array containing the token response or an error response.
  */
 export async function fetchUpstreamAuthToken({
   client_id,
@@ -49,34 +68,59 @@ export async function fetchUpstreamAuthToken({
   code,
   redirect_uri,
   upstream_url,
+  client_auth_method = 'client_secret_post',
+  code_verifier,
 }: {
   code: string | undefined
   upstream_url: string
   client_secret: string
   redirect_uri: string
   client_id: string
-}): Promise<[string, null] | [null, Response]> {
+  client_auth_method?: ClientAuthMethod
+  code_verifier?: string
+}): Promise<[UpstreamTokenResponse, null] | [null, Response]> {
   if (!code) {
     return [null, new Response('Missing code', { status: 400 })]
   }
 
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  }
+  const params: Record<string, string> = { grant_type: 'authorization_code', code, redirect_uri }
+  if (client_auth_method === 'client_secret_basic') {
+    headers.Authorization = `Basic ${btoa(`${client_id}:${client_secret}`)}`
+  } else {
+    Object.assign(params, { client_id, client_secret })
+  }
+  if (code_verifier) {
+    params.code_verifier = code_verifier
+  }
+
   const resp = await fetch(upstream_url, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({ client_id, client_secret, code, redirect_uri }).toString(),
+    headers,
+    body: new URLSearchParams(params).toString(),
   })
+  // Only the status and error code are logged, since token responses carry secrets
   if (!resp.ok) {
-    console.log(await resp.text())
+    console.error(`Failed to fetch access token: ${resp.status}`)
     return [null, new Response('Failed to fetch access token', { status: 500 })]
   }
-  const body = await resp.formData()
-  const accessToken = body.get('access_token') as string
-  if (!accessToken) {
+
+  // Some services answer with a form-encoded body even when asked for JSON
+  const body: Record<string, any> = resp.headers.get('content-type')?.includes('application/json')
+    ? await resp.json()
+    : Object.fromEntries(await resp.formData())
+  // Errors can come back with a 200 status, e.g. an expired code
+  if (body.error) {
+    console.error(`Failed to fetch access token: ${body.error}`)
+    return [null, new Response(`Failed to fetch access token: ${body.error}`, { status: 400 })]
+  }
+  if (!body.access_token) {
     return [null, new Response('Missing access token', { status: 400 })]
   }
-  return [accessToken, null]
+  return [body as UpstreamTokenResponse, null]
 }
 
 // Context from the auth process, encrypted & stored in the auth token
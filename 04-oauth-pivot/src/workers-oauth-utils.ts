@@ -8,16 +8,20 @@ const ONE_YEAR_IN_SECONDS = 31536000
 // --- Helper Functions ---
 
 /**
- * Encodes arbitrary data to a URL-safe base64 string.
+ * Encodes arbitrary data to a signed base64 string, in the same signature.base64(payload) format as the cookie.
+ * The state comes back in the form submission, so it is signed to stop it being changed on the way, e.g. to swap
+ * the redirect URI in the MCP client's request.
  * @param data - The data to encode (will be stringified).
- * @returns A URL-safe base64 encoded string.
+ * @param secret - The secret key used for signing.
+ * @returns A promise resolving to the signed, base64 encoded string.
  */
-function encodeState(data: any): string {
+async function encodeState(data: any, secret: string): Promise<string> {
   try {
     const jsonString = JSON.stringify(data)
+    const signature = await signData(await importKey(secret), jsonString)
     // Use btoa for simplicity, assuming Worker environment supports it well enough
     // For complex binary data, a Buffer/Uint8Array approach might be better
-    return btoa(jsonString)
+    return `${signature}.${btoa(jsonString)}`
   } catch (e) {
     console.error('Error encoding state:', e)
     throw new Error('Could not encode state')
@@ -25,13 +29,25 @@ function encodeState(data: any): string {
 }
 
 /**
- * Decodes a URL-safe base64 string back to its original data.
- * @param encoded - The URL-safe base64 encoded string.
- * @returns The original data.
+ * Verifies a string from encodeState and decodes it back to its original data.
+ * @param encoded - The signed, base64 encoded string.
+ * @param secret - The secret key used for signing.
+ * @returns A promise resolving to the original data.
+ * @throws If the signature is missing or invalid.
  */
-function decodeState<T = any>(encoded: string): T {
+async function decodeState<T = any>(encoded: string, secret: string): Promise<T> {
+  const [signatureHex, base64Payload] = encoded.split('.')
+  let jsonString: string
+  try {
+    jsonString = atob(base64Payload)
+  } catch (e) {
+    console.error('Error decoding state:', e)
+    throw new Error('Could not decode state')
+  }
+  if (!signatureHex || !(await verifySignature(await importKey(secret), signatureHex, jsonString))) {
+    throw new Error('State signature verification failed.')
+  }
   try {
-    const jsonString = atob(encoded)
     return JSON.parse(jsonString)
   } catch (e) {
     console.error('Error decoding state:', e)
@@ -181,7 +197,7 @@ export interface ApprovalDialogOptions {
   }
   /**
    * Arbitrary state data to pass through the approval flow
-   * Will be encoded in the form and returned when approval is complete
+   * Will be signed and encoded in the form, and returned when approval is complete
    */
   state: Record<string, any>
   /**
@@ -190,11 +206,10 @@ export interface ApprovalDialogOptions {
    */
   cookieName?: string
   /**
-   * Secret used to sign cookies for verification
-   * Can be a string or Uint8Array
-   * @default Built-in Uint8Array key
+   * Secret used to sign the state in the form, and the cookie that remembers approvals.
+   * Must be the secret later passed to parseRedirectApproval
    */
-  cookieSecret?: string | Uint8Array
+  cookieSecret: string
   /**
    * Cookie domain
    * @default current domain
@@ -219,13 +234,13 @@ export interface ApprovalDialogOptions {
  *
  * @param request - The HTTP request
  * @param options - Configuration for the approval dialog
- * @returns A Response containing the HTML approval dialog
+ * @returns A promise resolving to a Response containing the HTML approval dialog
  */
-export function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Response {
-  const { client, server, state } = options
+export async function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Promise<Response> {
+  const { client, server, state, cookieSecret } = options
 
-  // Encode state for form submission
-  const encodedState = btoa(JSON.stringify(state))
+  // Sign and encode state for form submission
+  const encodedState = await encodeState(state, cookieSecret)
 
   // Sanitize any untrusted content
   const serverName = sanitizeHtml(server.name)
@@ -557,9 +572,9 @@ export interface ParsedApprovalResult {
  * and generates Set-Cookie headers to mark the client as approved.
  *
  * @param request - The incoming POST Request object containing the form data.
- * @param cookieSecret - The secret key used to sign the approval cookie.
+ * @param cookieSecret - The secret key used to sign the state and the approval cookie.
  * @returns A promise resolving to an object containing the parsed state and necessary headers.
- * @throws If the request method is not POST, form data is invalid, or state is missing.
+ * @throws If the request method is not POST, form data is invalid, or state is missing or not signed with cookieSecret.
  */
 export async function parseRedirectApproval(request: Request, cookieSecret: string): Promise<ParsedApprovalResult> {
   if (request.method !== 'POST') {
@@ -577,7 +592,7 @@ export async function parseRedirectApproval(request: Request, cookieSecret: stri
       throw new Error("Missing or invalid 'state' in form data.")
     }
 
-    state = decodeState<{ oauthReqInfo?: AuthRequest }>(encodedState) // Decode the state
+    state = await decodeState<{ oauthReqInfo?: AuthRequest }>(encodedState, cookieSecret) // Verify and decode the state
     clientId = state?.oauthReqInfo?.clientId // Extract clientId from within the state
 
     if (!clientId) {
@@ -3,6 +3,7 @@
 declare namespace Cloudflare {
   interface Env {
     OAUTH_KV: KVNamespace
+    PERMISSIONS_KV: KVNamespace
     GITHUB_CLIENT_ID: string
     GITHUB_CLIENT_SECRET: string
     MCP_OBJECT: DurableObjectNamespace<import('./src/index').MyMCP>
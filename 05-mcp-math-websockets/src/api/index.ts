@@ -1,5 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WSServerTransport } from "./websocket";
+import { Logger } from "./logger";
 import { DurableObject } from "cloudflare:workers";
 import { z } from "zod";
 
@@ -8,20 +9,29 @@ export interface Env {
   ASSETS: Fetcher;
 }
 
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
 export class MyMcpServerDurableObject extends DurableObject {
-  server: McpServer;
-  transport: WSServerTransport;
+  // Every WebSocket gets its own server and transport, so clients sharing this
+  // Durable Object each have their own session and JSON-RPC id space
+  sessions = new Map<
+    string,
+    { server: McpServer; transport: WSServerTransport }
+  >();
 
-  constructor(state: DurableObjectState, env: Env) {
-    super(state, env);
+  // Sessions that don't receive a message for this long are closed
+  idleTimeoutMs = IDLE_TIMEOUT_MS;
 
-    this.server = new McpServer({
+  // Tools log through the session's logger, so their messages reach the client
+  // as well as the Workers logs
+  createServer(logger: Logger): McpServer {
+    const server = new McpServer({
       name: "Demo",
       version: "1.0.0",
     });
 
     // Define the add tool with proper typing
-    this.server.tool(
+    server.tool(
       "add",
       {
         a: z.number(),
@@ -35,7 +45,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Subtract two numbers
-    this.server.tool(
+    server.tool(
       "subtract",
       {
         a: z.number(),
@@ -49,7 +59,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Multiply two numbers
-    this.server.tool(
+    server.tool(
       "multiply",
       {
         a: z.number(),
@@ -63,7 +73,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Divide two numbers
-    this.server.tool(
+    server.tool(
       "divide",
       {
         a: z.number(),
@@ -71,6 +81,7 @@ export class MyMcpServerDurableObject extends DurableObject {
       },
       async ({ a, b }) => {
         if (b === 0) {
+          logger.warning("Division by zero", { a });
           throw new Error("Division by zero is not allowed");
         }
         return {
@@ -80,7 +91,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Calculate power
-    this.server.tool(
+    server.tool(
       "power",
       {
         base: z.number(),
@@ -94,13 +105,14 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Calculate square root
-    this.server.tool(
+    server.tool(
       "sqrt",
       {
         value: z.number(),
       },
       async ({ value }) => {
         if (value < 0) {
+          logger.warning("Square root of a negative number", { value });
           throw new Error("Cannot calculate square root of negative number");
         }
         return {
@@ -110,7 +122,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Trigonometric functions
-    this.server.tool(
+    server.tool(
       "sin",
       {
         angle: z.number(),
@@ -122,7 +134,7 @@ export class MyMcpServerDurableObject extends DurableObject {
       }
     );
 
-    this.server.tool(
+    server.tool(
       "cos",
       {
         angle: z.number(),
@@ -134,7 +146,7 @@ export class MyMcpServerDurableObject extends DurableObject {
       }
     );
 
-    this.server.tool(
+    server.tool(
       "tan",
       {
         angle: z.number(),
@@ -147,7 +159,7 @@ export class MyMcpServerDurableObject extends DurableObject {
     );
 
     // Natural logarithm
-    this.server.tool(
+    server.tool(
       "log",
       {
         value: z.number(),
@@ -162,17 +174,57 @@ export class MyMcpServerDurableObject extends DurableObject {
       }
     );
 
-    this.transport = new WSServerTransport();
+    return server;
   }
 
   override async fetch(request: Request) {
     if (request.headers.get("Upgrade") === "websocket") {
-      await this.server.connect(this.transport);
-      return this.transport.upgradeResponse;
+      const transport = new WSServerTransport();
+      const error = transport.validateUpgradeRequest(request);
+      if (error) {
+        return error;
+      }
+
+      const server = this.createServer(transport.logger);
+      transport.logger.attach(server);
+      await server.connect(transport);
+      this.sessions.set(transport.sessionId, { server, transport });
+      // Connecting replaces the transport's onclose, so listen on the server instead
+      server.server.onclose = () => {
+        this.sessions.delete(transport.sessionId);
+      };
+      await this.scheduleIdleCheck();
+
+      return transport.upgradeResponse;
     }
 
     return new Response("Expected WebSocket connection", { status: 400 });
   }
+
+  // Closes the sessions that have been idle for idleTimeoutMs, then waits for
+  // the next one that could be
+  async alarm() {
+    const now = Date.now();
+    for (const { transport } of this.sessions.values()) {
+      if (now - transport.lastActivityAt >= this.idleTimeoutMs) {
+        // The server's onclose removes the session from the map
+        await transport.close(1000, "Idle timeout");
+      }
+    }
+    await this.scheduleIdleCheck();
+  }
+
+  private async scheduleIdleCheck() {
+    if (this.sessions.size === 0) {
+      return;
+    }
+    const lastActivityAt = Math.min(
+      ...[...this.sessions.values()].map(
+        ({ transport }) => transport.lastActivityAt
+      )
+    );
+    await this.ctx.storage.setAlarm(lastActivityAt + this.idleTimeoutMs);
+  }
 }
 
 export default {
@@ -184,12 +236,19 @@ export default {
     const url = new URL(request.url);
 
     if (url.pathname.endsWith("/mcp")) {
+      // Clients connecting to the same room share a Durable Object, but each
+      // WebSocket still gets its own MCP session
+      const room = url.searchParams.get("room");
       const sessionId = url.searchParams.get("sessionId");
-      let object = env.MCP_DO.get(
-        sessionId
-          ? env.MCP_DO.idFromString(sessionId)
-          : env.MCP_DO.newUniqueId()
-      );
+      let id: DurableObjectId;
+      if (room) {
+        id = env.MCP_DO.idFromName(`room:${room}`);
+      } else if (sessionId) {
+        id = env.MCP_DO.idFromString(sessionId);
+      } else {
+        id = env.MCP_DO.newUniqueId();
+      }
+      let object = env.MCP_DO.get(id);
       return object.fetch(request);
     }
 
@@ -2,25 +2,42 @@ import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   JSONRPCMessage,
   JSONRPCMessageSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
 } from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from "./logger";
 
 const SUBPROTOCOL = "mcp";
 
+const MAXIMUM_MESSAGE_SIZE_BYTES = 4 * 1024 * 1024; // 4MB
+
 /**
  * Server transport for WebSockets: this will send messages over a WebSocket connection and receive messages from HTTP POST requests.
  */
 export class WSServerTransport implements Transport {
   private _server?: WebSocket;
   private _client?: WebSocket;
+  private _maxMessageSize: number;
   sessionId: string;
   connected: boolean = false;
+  // When the last MCP message was received, used to close idle sessions
+  lastActivityAt = Date.now();
+  // Writes the session's log lines, and sends them to the client once it sets
+  // a level
+  logger: Logger;
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
   onmessage?: (message: JSONRPCMessage) => void;
 
-  constructor() {
+  /**
+   * @param maxMessageSize - The largest message accepted, in bytes. Larger messages close the connection.
+   */
+  constructor({
+    maxMessageSize = MAXIMUM_MESSAGE_SIZE_BYTES,
+  }: { maxMessageSize?: number } = {}) {
     this.sessionId = crypto.randomUUID();
+    this.logger = new Logger(this.sessionId);
+    this._maxMessageSize = maxMessageSize;
   }
 
   async start(): Promise<void> {
@@ -32,6 +49,24 @@ export class WSServerTransport implements Transport {
     const [client, server] = Object.values(webSocketPair);
 
     server.addEventListener("message", async (event) => {
+      // Clients keep the connection alive by sending "ping", which isn't an
+      // MCP message
+      if (event.data === "ping") {
+        server.send("pong");
+        return;
+      }
+
+      // 1009 tells the client the message was too big
+      const size =
+        typeof event.data === "string"
+          ? new TextEncoder().encode(event.data).byteLength
+          : event.data.byteLength;
+      if (size > this._maxMessageSize) {
+        this.onerror?.(new Error(`Message too large: ${size} bytes`));
+        server.close(1009, "Message too big");
+        return;
+      }
+
       let message: JSONRPCMessage;
       try {
         // Ensure event.data is a string
@@ -45,13 +80,13 @@ export class WSServerTransport implements Transport {
         return;
       }
 
-      console.log("received message", message);
+      this.lastActivityAt = Date.now();
+      this.logger.received(message);
       this.onmessage?.(message);
     });
 
     server.addEventListener("close", () => {
-      this.connected = false;
-      this.onclose?.();
+      this.handleClose();
     });
 
     server.addEventListener("error", (event) => {
@@ -73,12 +108,43 @@ export class WSServerTransport implements Transport {
       throw new Error("Not connected");
     }
 
-    console.log("sending message", message);
+    this.logger.sent(message);
     this._server.send(JSON.stringify(message));
   }
 
-  async close(): Promise<void> {
-    this._server?.close();
+  /**
+   * Closes the WebSocket. onclose is called straight away, since the close
+   * event only arrives once the client answers.
+   */
+  async close(code?: number, reason?: string): Promise<void> {
+    this._server?.close(code, reason);
+    this.handleClose();
+  }
+
+  private handleClose() {
+    // Only report the first close, whether it came from the client or from us
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.onclose?.();
+  }
+
+  /**
+   * Checks the MCP-Protocol-Version header of the upgrade request. Messages on
+   * the WebSocket have no headers, so this is the only place it can be checked.
+   * The version itself is agreed by initialize. Returns an error response if it
+   * is unsupported.
+   */
+  validateUpgradeRequest(request: Request): Response | undefined {
+    const protocolVersion = request.headers.get("mcp-protocol-version");
+    if (
+      protocolVersion !== null &&
+      !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+    ) {
+      const message = `Unsupported protocol version ${protocolVersion}. Supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`;
+      return new Response(message, { status: 400 });
+    }
   }
 
   get upgradeResponse(): Response {
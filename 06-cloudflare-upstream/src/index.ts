@@ -1,18 +1,19 @@
-import OAuthProvider, { AuthRequest, OAuthHelpers } from 'workers-mcp/vendor/workers-oauth-provider/oauth-provider.js'
+import OAuthProvider from 'workers-mcp/vendor/workers-oauth-provider/oauth-provider.js'
 import { MCPEntrypoint } from './lib/MCPEntrypoint'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
-import { Hono } from 'hono'
+import { getStoredToken, isExpiring, storeToken, toUpstreamToken, UpstreamToken } from './upstream-token'
+import { UpstreamOAuthHandler } from './lib/UpstreamOAuthHandler'
 
 // Context from the auth process, encrypted & stored in the auth token
 // and provided to the MCP Server as this.props
 type Props = {
   username: string
   email: string
-  token: Record<string, string>
+  token: UpstreamToken
 }
 
-export class MyMCP extends MCPEntrypoint<Props> {
+export class MyMCP extends MCPEntrypoint<Props, Env> {
   get server() {
     const server = new McpServer({
       name: 'Cloudflare OAuth Proxy Demo',
@@ -26,13 +27,7 @@ export class MyMCP extends MCPEntrypoint<Props> {
     })
 
     server.tool('listAccounts', 'List the Cloudflare accounts your user has access to', {}, async () => {
-      // TODO: refresh token if expired
-      const { access_token } = this.props.token
-      const accounts = await fetch('https://api.cloudflare.com/client/v4/accounts', {
-        headers: {
-          Authorization: `Bearer ${access_token}`,
-        },
-      }).then((res) => res.json())
+      const accounts = await this.fetchCloudflare('https://api.cloudflare.com/client/v4/accounts').then((res) => res.json())
 
       return {
         content: [{ type: 'text', text: JSON.stringify(accounts) }],
@@ -41,97 +36,91 @@ export class MyMCP extends MCPEntrypoint<Props> {
 
     return server
   }
-}
-
-const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>()
-
-app.get('/authorize', async (c) => {
-  const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw)
-  const upstream = new URL(`https://dash.cloudflare.com/oauth2/auth`)
-  upstream.searchParams.set('client_id', c.env.CF_CLIENT_ID)
-  upstream.searchParams.set('redirect_uri', new URL('/oauth/callback', c.req.url).href)
-  upstream.searchParams.set('scope', 'account:read user:read offline_access')
-  upstream.searchParams.set('state', btoa(JSON.stringify(oauthReqInfo)))
-  upstream.searchParams.set('response_type', 'code')
-  return Response.redirect(upstream.href)
-})
 
-app.get('/oauth/callback', async (c) => {
-  const { code, scope, state } = c.req.query()
-
-  if (!code) {
-    return new Response('Missing code', { status: 400 })
-  }
-  if (!scope) {
-    return new Response('Missing scope', { status: 400 })
-  }
-  if (!state) {
-    return new Response('Missing state', { status: 400 })
+  /**
+   * Calls the Cloudflare API as the user. The access token is refreshed first if it is about to expire, and once more
+   * if the API rejects it anyway
+   */
+  async fetchCloudflare(url: string) {
+    let token = await this.getToken()
+    if (isExpiring(token)) {
+      token = await this.refreshToken(token)
+    }
+
+    const request = (token: UpstreamToken) => fetch(url, { headers: { Authorization: `Bearer ${token.access_token}` } })
+    const resp = await request(token)
+    if (resp.status !== 401 || !token.refresh_token) {
+      return resp
+    }
+    return request(await this.refreshToken(token))
   }
 
-  const oauthReqInfo = JSON.parse(atob(state))
-  const credentials = btoa(`${c.env.CF_CLIENT_ID}:${c.env.CF_CLIENT_SECRET}`)
-
-  const resp = await fetch(`https://dash.cloudflare.com/oauth2/token`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Authorization: `Basic ${credentials}`,
-    },
-    body: new URLSearchParams({
-      // client_id: c.env.CF_CLIENT_ID,
-      // client_secret: c.env.CF_CLIENT_SECRET,
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: new URL('/oauth/callback', c.req.url).href,
-    }).toString(),
-  })
-  if (!resp.ok) {
-    console.log(await resp.text())
-    return c.text('Failed to fetch access token', 500)
+  private async getToken() {
+    return (await getStoredToken(this.env, this.props.username)) ?? this.props.token
   }
-  const body = (await resp.json()) as Record<string, string>
 
-  const accessToken = body.access_token
-  if (!accessToken) {
-    return c.text('Missing access token', 400)
-  }
+  private async refreshToken(token: UpstreamToken) {
+    if (!token.refresh_token) {
+      throw new Error('The Cloudflare token has expired. Reconnect to authorize again')
+    }
 
-  // Fetch the user info from GitHub
-  const apiRes = await fetch(`https://api.cloudflare.com/client/v4/user`, {
-    headers: {
-      Authorization: `bearer ${accessToken}`,
-    },
-  })
-  if (!apiRes.ok) {
-    console.log(await apiRes.text())
-    return c.text('Failed to fetch user', 500)
+    try {
+      const [refreshed, errResponse] = await app.refreshToken(this.env, token.refresh_token)
+      if (errResponse) {
+        throw new Error(`Failed to refresh the Cloudflare token: ${await errResponse.text()}`)
+      }
+      // Cloudflare may not issue a new refresh token, in which case the old one is still valid
+      const next = toUpstreamToken({ ...refreshed, refresh_token: refreshed.refresh_token ?? token.refresh_token })
+      await storeToken(this.env, this.props.username, next)
+      this.logger.info('Refreshed upstream token', { expiresAt: next.expires_at })
+      return next
+    } catch (error) {
+      // Another session may have used the refresh token first, in which case its grant is in KV
+      const stored = await getStoredToken(this.env, this.props.username)
+      if (stored && stored.refresh_token !== token.refresh_token) {
+        return stored
+      }
+      throw error
+    }
   }
+}
 
-  const user = (await apiRes.json()) as { result: Record<string, string> }
-  const { username, email } = user.result
-  // Return back to the MCP client a new token
-  const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
-    request: oauthReqInfo,
-    userId: username,
-    metadata: {
-      label: email,
-    },
-    scope: oauthReqInfo.scope,
-    // This will be available on this.props inside MyMCP
-    props: {
-      username,
-      email,
-      token: body,
-    } as Props,
-  })
-
-  return Response.redirect(redirectTo)
+const app = new UpstreamOAuthHandler({
+  authorizeUrl: 'https://dash.cloudflare.com/oauth2/auth',
+  tokenUrl: 'https://dash.cloudflare.com/oauth2/token',
+  scope: 'account:read user:read offline_access',
+  clientId: (env) => env.CF_CLIENT_ID,
+  clientSecret: (env) => env.CF_CLIENT_SECRET,
+  clientAuthMethod: 'client_secret_basic',
+  pkce: true,
+  callbackPath: '/oauth/callback',
+
+  // Fetch the user info from Cloudflare
+  fetchUser: async ({ access_token }) => {
+    const apiRes = await fetch(`https://api.cloudflare.com/client/v4/user`, {
+      headers: {
+        Authorization: `bearer ${access_token}`,
+      },
+    })
+    if (!apiRes.ok) {
+      throw new Error(`Failed to fetch user: ${await apiRes.text()}`)
+    }
+    const user = (await apiRes.json()) as { result: Record<string, string> }
+    return user.result
+  },
+  getGrant: ({ username, email }) => ({ userId: username, label: email }),
+  getProps: async ({ username, email }, body, env): Promise<Props> => {
+    const token = toUpstreamToken(body)
+    // Replaces any grant from an earlier authorization, so every session uses this one
+    await storeToken(env, username, token)
+    return { username, email, token }
+  },
 })
 
 export default new OAuthProvider({
   apiRoute: '/sse',
-  apiHandler: MyMCP.Router,
+  // Each user gets their own Durable Object for every SSE connection
+  apiHandler: MyMCP.createRouter<Props>((props, sessionId) => `${props.username}:${sessionId}`),
   defaultHandler: app,
   authorizeEndpoint: '/authorize',
   tokenEndpoint: '/token',
@@ -0,0 +1,100 @@
+// Tokens are refreshed this long before they expire, so they don't expire while a request is in flight
+const REFRESH_MARGIN_MS = 60 * 1000 // 1 minute
+
+const encoder = new TextEncoder()
+
+/**
+ * The grant issued by Cloudflare, with the time it expires at instead of how many seconds it was valid for
+ */
+export type UpstreamToken = {
+  access_token: string
+  refresh_token?: string
+  token_type: string
+  scope: string
+  expires_at?: number
+}
+
+/**
+ * A grant encrypted with AES-GCM, as it is kept in KV
+ */
+type EncryptedToken = {
+  iv: string
+  data: string
+}
+
+/**
+ * Converts a token response, which says how many seconds the access token is valid for, to an UpstreamToken
+ */
+export function toUpstreamToken({ access_token, refresh_token, token_type, scope, expires_in }: Record<string, any>): UpstreamToken {
+  return {
+    access_token,
+    refresh_token,
+    token_type,
+    scope,
+    expires_at: typeof expires_in === 'number' ? Date.now() + expires_in * 1000 : undefined,
+  }
+}
+
+/**
+ * Whether the access token has expired, or will within the refresh margin
+ */
+export function isExpiring(token: UpstreamToken) {
+  return token.expires_at !== undefined && token.expires_at - REFRESH_MARGIN_MS <= Date.now()
+}
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Derives the AES-GCM key that grants are encrypted with from the TOKEN_ENCRYPTION_KEY secret
+ */
+async function getEncryptionKey(env: Env) {
+  const secret = await crypto.subtle.importKey('raw', encoder.encode(env.TOKEN_ENCRYPTION_KEY), 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode('upstream-token') },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * The props in the auth token can't be changed once issued, so the latest grant for each user is kept in KV. Every
+ * session reads it from there, and it is replaced whenever the user authorizes again or a token is refreshed.
+ * Grants are encrypted, with the username as additional data so one user's grant can't be copied to another's key.
+ * Returns null if there is no grant, or it can't be decrypted (e.g. after the key was rotated)
+ */
+export async function getStoredToken(env: Env, username: string): Promise<UpstreamToken | null> {
+  const stored = await env.OAUTH_KV.get<EncryptedToken>(`upstream-token:${username}`, 'json')
+  if (!stored?.iv || !stored.data) {
+    return null
+  }
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv), additionalData: encoder.encode(username) },
+      await getEncryptionKey(env),
+      fromBase64(stored.data),
+    )
+    return JSON.parse(new TextDecoder().decode(decrypted)) as UpstreamToken
+  } catch {
+    return null
+  }
+}
+
+export async function storeToken(env: Env, username: string, token: UpstreamToken) {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(username) },
+    await getEncryptionKey(env),
+    encoder.encode(JSON.stringify(token)),
+  )
+  const stored: EncryptedToken = { iv: toBase64(iv), data: toBase64(new Uint8Array(encrypted)) }
+  await env.OAUTH_KV.put(`upstream-token:${username}`, JSON.stringify(stored))
+}
@@ -4,5 +4,6 @@ interface Env {
 	OAUTH_KV: KVNamespace;
 	CF_CLIENT_ID: string;
 	CF_CLIENT_SECRET: string;
+	TOKEN_ENCRYPTION_KEY: string;
 	MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
 }
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { MCPEntrypoint } from "./mcp-entrypoint.js";
+import { Logger } from "./logger.js";
 
 export interface Env {
   MCP_DO: DurableObjectNamespace;
@@ -8,7 +9,7 @@ export interface Env {
 }
 
 export class MyMcpServerDurableObject extends MCPEntrypoint {
-  getServer(): McpServer {
+  getServer(logger: Logger): McpServer {
     let server = new McpServer({
       name: "Demo",
       version: "1.0.0",
@@ -65,6 +66,7 @@ export class MyMcpServerDurableObject extends MCPEntrypoint {
       },
       async ({ a, b }) => {
         if (b === 0) {
+          logger.warning("Division by zero", { a });
           throw new Error("Division by zero is not allowed");
         }
         return {
@@ -169,12 +171,19 @@ export default {
     const url = new URL(request.url);
 
     if (url.pathname.endsWith("/mcp")) {
+      // Clients connecting to the same room share a Durable Object, but each
+      // WebSocket still gets its own MCP session
+      const room = url.searchParams.get("room");
       const sessionId = url.searchParams.get("sessionId");
-      let object = env.MCP_DO.get(
-        sessionId
-          ? env.MCP_DO.idFromString(sessionId)
-          : env.MCP_DO.newUniqueId()
-      );
+      let id: DurableObjectId;
+      if (room) {
+        id = env.MCP_DO.idFromName(`room:${room}`);
+      } else if (sessionId) {
+        id = env.MCP_DO.idFromString(sessionId);
+      } else {
+        id = env.MCP_DO.newUniqueId();
+      }
+      let object = env.MCP_DO.get(id);
       return object.fetch(request);
     }
 
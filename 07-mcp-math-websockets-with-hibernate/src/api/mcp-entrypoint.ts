@@ -1,49 +1,200 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { DurableObject } from "cloudflare:workers";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js";
-import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  InitializeRequestSchema,
+  JSONRPCMessageSchema,
+  JSONRPCNotification,
+  JSONRPCNotificationSchema,
+  JSONRPCRequest,
+  JSONRPCRequestSchema,
+  JSONRPCResponseSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  JSONRPCMessage,
+  LoggingLevel,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from "./logger.js";
 
 const SUBPROTOCOL = "mcp";
 
-export abstract class MCPEntrypoint extends DurableObject implements Transport {
-  server: McpServer;
-  webSocketClient: WebSocket;
-  webSocketServer: WebSocket;
+const MAXIMUM_MESSAGE_SIZE_BYTES = 4 * 1024 * 1024; // 4MB
+
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// Saved on the WebSocket with `serializeAttachment`, so it survives hibernation
+type SessionState = {
+  // The client's initialize request, which holds its capabilities and info
+  initializeRequest?: JSONRPCRequest;
+  // The protocol version the server answered the initialize request with
+  protocolVersion?: string;
+  // Whether the client has sent `notifications/initialized`
+  initialized?: boolean;
+  // When the client last sent a message, used to close idle sessions
+  lastActivityAt?: number;
+  // The level the client set with `logging/setLevel`
+  logLevel?: LoggingLevel;
+};
+
+// The transport for a single WebSocket. Every socket gets its own transport and
+// McpServer, so clients sharing a Durable Object each have their own session
+// and JSON-RPC id space.
+class WebSocketSessionTransport implements Transport {
+  // The id of the initialize request replayed to restore the server, whose
+  // response must not be sent to the client again
+  #restoreRequestId?: string;
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
   onmessage?: (message: JSONRPCMessage) => void;
 
-  constructor(state: DurableObjectState, env: Env) {
-    super(state, env);
-    this.server = this.getServer();
-    const webSocketPair = new WebSocketPair();
-    this.webSocketClient = webSocketPair[0];
-    this.webSocketServer = webSocketPair[1];
+  // Writes the session's log lines, and sends them to the client once it sets
+  // a level
+  readonly logger: Logger;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly ws: WebSocket
+  ) {
+    this.logger = new Logger(sessionId);
+    // The level is kept on the socket, so the client still gets its log
+    // messages after the Durable Object wakes from hibernation
+    this.logger.clientLevel = this.getSessionState().logLevel;
   }
 
-  abstract getServer(): McpServer;
+  // Lets the client set a log level on the session's server, and saves it with
+  // the session state
+  attachLogger(server: McpServer) {
+    this.logger.attach(server, (logLevel) => {
+      this.setSessionState({ ...this.getSessionState(), logLevel });
+    });
+  }
 
   async start(): Promise<void> {
-    this.ctx.acceptWebSocket(this.webSocketServer);
+    // The WebSocket is accepted by the Durable Object, so there is nothing to do here
   }
 
   async send(message: JSONRPCMessage): Promise<void> {
-    this.webSocketServer.send(JSON.stringify(message));
+    const response = JSONRPCResponseSchema.safeParse(message);
+    if (response.success) {
+      // This answers the replayed initialize request, the client already has it
+      if (response.data.id === this.#restoreRequestId) {
+        this.#restoreRequestId = undefined;
+        return;
+      }
+
+      const state = this.getSessionState();
+      if (
+        response.data.id === state.initializeRequest?.id &&
+        typeof response.data.result.protocolVersion === "string"
+      ) {
+        this.setSessionState({
+          ...state,
+          protocolVersion: response.data.result.protocolVersion,
+        });
+      }
+    }
+
+    this.logger.sent(message);
+    this.ws.send(JSON.stringify(message));
   }
 
   async close(): Promise<void> {
-    this.webSocketServer.close();
+    this.ws.close();
+  }
+
+  receive(message: JSONRPCMessage) {
+    // Save the initialize state so the server can be restored after hibernation
+    let state = this.getSessionState();
+    const request = JSONRPCRequestSchema.safeParse(message);
+    if (request.success && InitializeRequestSchema.safeParse(message).success) {
+      state = { initializeRequest: request.data, logLevel: state.logLevel };
+    }
+    const notification = JSONRPCNotificationSchema.safeParse(message);
+    if (
+      notification.success &&
+      notification.data.method === "notifications/initialized"
+    ) {
+      state = { ...state, initialized: true };
+    }
+    this.setSessionState({ ...state, lastActivityAt: Date.now() });
+
+    this.logger.received(message);
+    this.onmessage?.(message);
   }
 
+  // Replays the client's initialize request to a new server, so it knows the
+  // client's capabilities and protocol version again
+  restore() {
+    const { initializeRequest, initialized } = this.getSessionState();
+    if (!initializeRequest) {
+      return;
+    }
+
+    // Use an id the client can't have used, so the response can be dropped
+    this.#restoreRequestId = `restore:${crypto.randomUUID()}`;
+    this.onmessage?.({ ...initializeRequest, id: this.#restoreRequestId });
+    if (initialized) {
+      this.onmessage?.({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+    }
+  }
+
+  private getSessionState(): SessionState {
+    return (this.ws.deserializeAttachment() ?? {}) as SessionState;
+  }
+
+  private setSessionState(state: SessionState) {
+    this.ws.serializeAttachment(state);
+  }
+}
+
+export abstract class MCPEntrypoint extends DurableObject {
+  // The largest message accepted, in bytes. Larger messages close the connection
+  maxMessageSize = MAXIMUM_MESSAGE_SIZE_BYTES;
+
+  // Sessions that don't receive a message for this long are closed
+  idleTimeoutMs = IDLE_TIMEOUT_MS;
+
+  // The transport for each connected WebSocket, by session id. A Durable Object
+  // that wakes from hibernation runs its constructor again, so this starts empty
+  // and sessions are restored as their sockets receive messages.
+  #sessions = new Map<string, WebSocketSessionTransport>();
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+
+    // Answer keepalive pings without waking the Durable Object from hibernation
+    this.ctx.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair("ping", "pong")
+    );
+  }
+
+  // Called for every WebSocket, so each client gets its own McpServer. Shared
+  // state belongs on the Durable Object, where every server can reach it. Tools
+  // can log through the session's logger.
+  abstract getServer(logger: Logger): McpServer;
+
   override async fetch(request: Request) {
     if (request.headers.get("Upgrade") === "websocket") {
-      await this.server.connect(this);
+      const webSocketPair = new WebSocketPair();
+      const [client, server] = Object.values(webSocketPair);
+
+      // Accepting the socket through the Durable Object state lets it hibernate.
+      // The tag routes its messages back to its session after waking up.
+      const sessionId = crypto.randomUUID();
+      this.ctx.acceptWebSocket(server, [sessionId]);
+      server.serializeAttachment({
+        lastActivityAt: Date.now(),
+      } satisfies SessionState);
+      await this.connect(sessionId, server);
+      await this.scheduleIdleCheck();
 
       return new Response(null, {
         status: 101,
-        webSocket: this.webSocketClient,
+        webSocket: client,
         headers: { "Sec-WebSocket-Protocol": SUBPROTOCOL },
       });
     }
@@ -51,7 +202,26 @@ export abstract class MCPEntrypoint extends DurableObject implements Transport {
     return new Response("Expected WebSocket connection", { status: 400 });
   }
 
+  // Sends a notification to every connected client, e.g. after shared state changes
+  broadcast(notification: JSONRPCNotification) {
+    for (const ws of this.ctx.getWebSockets()) {
+      ws.send(JSON.stringify(notification));
+    }
+  }
+
   async webSocketMessage(ws: WebSocket, event: ArrayBuffer | string) {
+    // 1009 tells the client the message was too big
+    const size =
+      typeof event === "string"
+        ? new TextEncoder().encode(event).byteLength
+        : event.byteLength;
+    if (size > this.maxMessageSize) {
+      ws.close(1009, "Message too big");
+      return;
+    }
+
+    const transport = await this.getTransport(ws);
+
     let message: JSONRPCMessage;
     try {
       // Ensure event is a string
@@ -59,16 +229,16 @@ export abstract class MCPEntrypoint extends DurableObject implements Transport {
         typeof event === "string" ? event : new TextDecoder().decode(event);
       message = JSONRPCMessageSchema.parse(JSON.parse(data));
     } catch (error) {
-      this.onerror?.(error as Error);
+      transport.onerror?.(error as Error);
       return;
     }
 
-    console.log("received message", message);
-    this.onmessage?.(message);
+    transport.receive(message);
   }
 
   async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
-    this.onerror?.(error as Error);
+    const transport = this.#sessions.get(this.getSessionId(ws));
+    transport?.onerror?.(error as Error);
   }
 
   async webSocketClose(
@@ -77,6 +247,74 @@ export abstract class MCPEntrypoint extends DurableObject implements Transport {
     reason: string,
     wasClean: boolean
   ): Promise<void> {
-    this.onclose?.();
+    this.closeSession(ws);
+  }
+
+  // Closes the sockets that haven't sent a message for idleTimeoutMs, then
+  // waits for the next one that could be. Alarms wake the Durable Object from
+  // hibernation, so the last activity is read from each socket's attachment.
+  async alarm() {
+    const now = Date.now();
+    for (const ws of this.getOpenWebSockets()) {
+      const { lastActivityAt = 0 } = (ws.deserializeAttachment() ??
+        {}) as SessionState;
+      if (now - lastActivityAt >= this.idleTimeoutMs) {
+        ws.close(1000, "Idle timeout");
+        this.closeSession(ws);
+      }
+    }
+    await this.scheduleIdleCheck();
+  }
+
+  private async scheduleIdleCheck() {
+    const lastActivity = this.getOpenWebSockets().map(
+      (ws) =>
+        ((ws.deserializeAttachment() ?? {}) as SessionState).lastActivityAt ?? 0
+    );
+    if (lastActivity.length === 0) {
+      return;
+    }
+    await this.ctx.storage.setAlarm(
+      Math.min(...lastActivity) + this.idleTimeoutMs
+    );
+  }
+
+  private getOpenWebSockets() {
+    return this.ctx
+      .getWebSockets()
+      .filter((ws) => ws.readyState === WebSocket.OPEN);
+  }
+
+  private closeSession(ws: WebSocket) {
+    const sessionId = this.getSessionId(ws);
+    this.#sessions.get(sessionId)?.onclose?.();
+    this.#sessions.delete(sessionId);
+  }
+
+  private getSessionId(ws: WebSocket): string {
+    return this.ctx.getTags(ws)[0];
+  }
+
+  private async connect(sessionId: string, ws: WebSocket) {
+    const transport = new WebSocketSessionTransport(sessionId, ws);
+    const server = this.getServer(transport.logger);
+    transport.attachLogger(server);
+    await server.connect(transport);
+    this.#sessions.set(sessionId, transport);
+    return transport;
+  }
+
+  // Looks up the session for a socket, restoring it if the Durable Object
+  // woke from hibernation with a new, uninitialized server
+  private async getTransport(ws: WebSocket) {
+    const sessionId = this.getSessionId(ws);
+    const existing = this.#sessions.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const transport = await this.connect(sessionId, ws);
+    transport.restore();
+    return transport;
   }
 }
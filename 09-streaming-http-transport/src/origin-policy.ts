@@ -0,0 +1,27 @@
+/**
+ * Which browser origins may call the server: a list of origins or patterns (`'*'` allows any origin),
+ * or a function that decides for each origin.
+ */
+export type OriginPolicy = (string | RegExp)[] | ((origin: string) => boolean);
+
+/**
+ * Checks the Origin of a request against the policy. Browsers always send an Origin with cross-origin
+ * requests, so this keeps other sites from talking to the server. Requests without an Origin don't come
+ * from a web page and are always allowed.
+ * The server's own origin isn't trusted unless it is listed: a DNS rebinding attack points the attacker's
+ * host name at the server, so their page's Origin matches the request URL.
+ */
+export function isOriginAllowed(request: Request, allowedOrigins: OriginPolicy = []): boolean {
+	const origin = request.headers.get('origin');
+	if (!origin) {
+		return true;
+	}
+
+	if (typeof allowedOrigins === 'function') {
+		return allowedOrigins(origin);
+	}
+
+	return allowedOrigins.some((allowedOrigin) =>
+		typeof allowedOrigin === 'string' ? allowedOrigin === '*' || allowedOrigin === origin : allowedOrigin.test(origin),
+	);
+}
@@ -1,10 +1,65 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StatelessWorkersTransport } from './stateless-workers-transport.js';
+import { StatelessWorkersTransport, StatelessWorkersTransportOptions } from './stateless-workers-transport.js';
+
+type McpServerFactory = () => McpServer | Promise<McpServer>;
+
+// How long a request can keep a shared server instance to itself while another request is waiting for it
+const SHARED_SERVER_TIMEOUT_MS = 60_000; // 1 minute
+
+/**
+ * Resolves once the transport has closed. It is aborted first if the request is aborted, or if it is still open
+ * `timeoutMs` after another request started waiting, e.g. because the client stopped reading the response, so it
+ * can't hold the server forever. Nothing times out while no other request is waiting, so long-running tools still
+ * work on a server that isn't busy.
+ */
+async function released(transport: StatelessWorkersTransport, signal: AbortSignal, timeoutMs: number, requestWaiting: Promise<void>) {
+	const abort = () => transport.abort('Request timed out while another request was waiting for the shared server');
+	let closed = false;
+	let timeout: ReturnType<typeof setTimeout> | null = null;
+	requestWaiting.then(() => {
+		if (!closed) {
+			timeout = setTimeout(abort, timeoutMs);
+		}
+	});
+	signal.addEventListener('abort', abort, { once: true });
+	await transport.closed;
+	closed = true;
+	clearTimeout(timeout);
+	signal.removeEventListener('abort', abort);
+}
+
+/**
+ * Serves an MCP server over the stateless transport.
+ *
+ * Pass a factory to create a fresh `McpServer` for every request, so concurrent requests never share
+ * a transport. An `McpServer` instance is still accepted, but it can only be connected to one transport
+ * at a time, so requests to it are handled one after another. Once another request is waiting, a request
+ * that still holds the server after `sharedServerTimeoutMs` is aborted, so the ones behind it get their turn.
+ */
+export function serveMcp({
+	server,
+	sharedServerTimeoutMs = SHARED_SERVER_TIMEOUT_MS,
+	...options
+}: { server: McpServer | McpServerFactory; sharedServerTimeoutMs?: number } & StatelessWorkersTransportOptions) {
+	// Requests to a shared server instance wait here until the previous transport has closed
+	let queue: Promise<void> = Promise.resolve();
+	// Tells the last request in the queue that another one is waiting behind it
+	let requestWaiting = () => {};
 
-export function serveMcp({ server }: { server: McpServer }) {
 	return async (request: Request, env: Env, ctx: ExecutionContext) => {
-		let transport = new StatelessWorkersTransport();
-		server.connect(transport);
+		let transport = new StatelessWorkersTransport(options);
+
+		if (server instanceof McpServer) {
+			const previous = queue;
+			requestWaiting();
+			const waiting = new Promise<void>((resolve) => (requestWaiting = resolve));
+			queue = previous.then(() => released(transport, request.signal, sharedServerTimeoutMs, waiting));
+			await previous;
+			await server.connect(transport);
+		} else {
+			await (await server()).connect(transport);
+		}
+
 		let res = await transport.fetch(request, env, ctx);
 		return res;
 	};
@@ -4,7 +4,6 @@ import {
 	JSONRPCError,
 	JSONRPCErrorSchema,
 	JSONRPCMessage,
-	JSONRPCMessageSchema,
 	JSONRPCNotification,
 	JSONRPCNotificationSchema,
 	JSONRPCRequest,
@@ -12,7 +11,9 @@ import {
 	JSONRPCResponse,
 	JSONRPCResponseSchema,
 	RequestId,
+	SUPPORTED_PROTOCOL_VERSIONS,
 } from '@modelcontextprotocol/sdk/types.js';
+import { isOriginAllowed, OriginPolicy } from './origin-policy.js';
 
 const MAXIMUM_MESSAGE_SIZE_BYTES = 4194304; // 4mb in bytes
 
@@ -35,9 +36,62 @@ type ParseMessageResult =
 			message: JSONRPCError;
 	  };
 
+// JSONRPCError requires an id, but an invalid request is answered with a null id if its id can't be read
+type InvalidRequestError = Omit<JSONRPCError, 'id'> & { id: RequestId | null };
+
+type InvalidMessageResult = {
+	type: 'invalid';
+	error: InvalidRequestError;
+};
+
+/**
+ * Reads the request body as text, stopping as soon as it grows past `maxBytes`. The Content-Length header
+ * can't be relied on, since chunked requests don't send one. Returns null if the body is too large.
+ */
+async function readRequestBody(req: Request, maxBytes: number): Promise<string | null> {
+	if (!req.body) {
+		return '';
+	}
+
+	const reader = req.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		size += value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+
+	const body = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return new TextDecoder().decode(body);
+}
+
+function getRequestId(message: unknown): RequestId | null {
+	if (typeof message === 'object' && message !== null && 'id' in message) {
+		const { id } = message;
+		if (typeof id === 'string' || typeof id === 'number') {
+			return id;
+		}
+	}
+	return null;
+}
+
 // TODO: Swap to https://github.com/modelcontextprotocol/typescript-sdk/pull/281
 // when it gets merged
-function parseMessage(message: JSONRPCMessage): ParseMessageResult {
+function parseMessage(message: unknown): ParseMessageResult | InvalidMessageResult {
 	const requestResult = JSONRPCRequestSchema.safeParse(message);
 	if (requestResult.success) {
 		return {
@@ -71,9 +125,36 @@ function parseMessage(message: JSONRPCMessage): ParseMessageResult {
 		};
 	}
 
-	// JSONRPCMessage is a union of these 4 types, so if we have a valid
-	// JSONRPCMessage, we should not get this error
-	throw new Error('Invalid message');
+	// JSONRPCMessage is a union of these 4 types, so anything else is not a valid JSON-RPC message
+	return {
+		type: 'invalid',
+		error: {
+			jsonrpc: '2.0',
+			error: {
+				code: -32600,
+				message: 'Invalid Request',
+			},
+			id: getRequestId(message),
+		},
+	};
+}
+
+export interface StatelessWorkersTransportOptions {
+	/**
+	 * If true, the transport buffers the responses and returns a single `application/json`
+	 * response instead of an SSE stream. Notifications can't be sent in this mode.
+	 */
+	enableJsonResponse?: boolean;
+
+	/**
+	 * The browser origins allowed to call the server, including its own. Defaults to none.
+	 */
+	allowedOrigins?: OriginPolicy;
+
+	/**
+	 * The largest request body accepted, in bytes. Defaults to 4mb.
+	 */
+	maxMessageSize?: number;
 }
 
 export class StatelessWorkersTransport implements Transport {
@@ -82,11 +163,36 @@ export class StatelessWorkersTransport implements Transport {
 	private _writer: WritableStreamDefaultWriter<any> | null = null;
 	private _encoder: TextEncoder | null = null;
 	private _started: boolean = false;
+	private _enableJsonResponse: boolean;
+	private _allowedOrigins?: OriginPolicy;
+	private _maxMessageSize: number;
+	// responses buffered when replying with a single JSON response
+	private _jsonResponses: (JSONRPCMessage | InvalidRequestError)[] = [];
+	private _resolveJsonResponse: (() => void) | null = null;
+	private _closed: boolean = false;
+	private _resolveClosed!: () => void;
+
+	/**
+	 * Resolves once the transport has closed, which happens after the last response has been sent.
+	 */
+	readonly closed: Promise<void> = new Promise((resolve) => {
+		this._resolveClosed = resolve;
+	});
 
 	onclose?: () => void;
 	onerror?: (error: Error) => void;
 	onmessage?: (message: JSONRPCMessage) => void;
 
+	constructor({
+		enableJsonResponse = false,
+		allowedOrigins,
+		maxMessageSize = MAXIMUM_MESSAGE_SIZE_BYTES,
+	}: StatelessWorkersTransportOptions = {}) {
+		this._enableJsonResponse = enableJsonResponse;
+		this._allowedOrigins = allowedOrigins;
+		this._maxMessageSize = maxMessageSize;
+	}
+
 	/**
 	 * Starts the transport. This is required by the Transport interface but is a no-op
 	 * for the Streamable HTTP transport as connections are managed per-request.
@@ -99,16 +205,67 @@ export class StatelessWorkersTransport implements Transport {
 	}
 
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		if (request.method === 'POST') {
-			return await this.handlePostRequest(request);
+		let response: Response;
+		if (!isOriginAllowed(request, this._allowedOrigins)) {
+			// Rejected before any message is looked at
+			response = await this.handleForbiddenOrigin();
+		} else if (request.method === 'OPTIONS') {
+			response = await this.handlePreflightRequest();
+		} else if (request.method === 'POST') {
+			response = await this.handlePostRequest(request);
 		} else {
-			return await this.handleUnsupportedRequest();
+			response = await this.handleUnsupportedRequest();
+		}
+
+		// Browsers can only read the response if it allows their origin
+		const origin = request.headers.get('origin');
+		if (origin && response.status !== 403) {
+			response.headers.set('Access-Control-Allow-Origin', origin);
+			response.headers.set('Vary', 'Origin');
 		}
+
+		// If there are no requests left to respond to, this transport is done.
+		// Otherwise it is closed once the last response has been sent.
+		if (this._requests.size === 0) {
+			await this.close();
+		}
+		return response;
 	}
 
 	/**
-	 * Handles unsupported requests (GET, PUT, PATCH, etc.)
-	 * For now we support only POST and DELETE requests. Support for GET for SSE connections will be added later.
+	 * Handles requests from origins that aren't allowed by the origin policy
+	 */
+	private async handleForbiddenOrigin(): Promise<Response> {
+		const body = JSON.stringify({
+			jsonrpc: '2.0',
+			error: {
+				code: -32000,
+				message: 'Forbidden: Origin not allowed',
+			},
+			id: null,
+		});
+		return new Response(body, { status: 403 });
+	}
+
+	/**
+	 * Handles CORS preflight requests. The origin has already been checked against the same policy
+	 * as the actual request.
+	 */
+	private async handlePreflightRequest(): Promise<Response> {
+		return new Response(null, {
+			status: 204,
+			headers: {
+				'Access-Control-Allow-Methods': 'POST, OPTIONS',
+				'Access-Control-Allow-Headers': 'Content-Type, Mcp-Session-Id, Mcp-Protocol-Version',
+				'Access-Control-Max-Age': '86400',
+			},
+		});
+	}
+
+	/**
+	 * Handles unsupported requests (GET, DELETE, PUT, PATCH, etc.)
+	 * For now we support only POST requests. Support for GET for SSE connections will be added later.
+	 * This transport is stateless, so it never issues a session id and there is no session for DELETE to terminate.
 	 */
 	private async handleUnsupportedRequest(): Promise<Response> {
 		const body = JSON.stringify({
@@ -152,36 +309,67 @@ export class StatelessWorkersTransport implements Transport {
 				return new Response(body, { status: 415 });
 			}
 
-			// Check content length against maximum allowed size
+			// Check content length against maximum allowed size. The body is checked again as it is read,
+			// since the header may be missing
 			const contentLength = parseInt(req.headers.get('content-length') ?? '0');
-			if (contentLength > MAXIMUM_MESSAGE_SIZE_BYTES) {
+			const requestBody = contentLength > this._maxMessageSize ? null : await readRequestBody(req, this._maxMessageSize);
+			if (requestBody === null) {
 				const body = JSON.stringify({
 					jsonrpc: '2.0',
 					error: {
 						code: -32000,
-						message: `Request body too large. Maximum size is ${MAXIMUM_MESSAGE_SIZE_BYTES} bytes`,
+						message: `Request body too large. Maximum size is ${this._maxMessageSize} bytes`,
 					},
 					id: null,
 				});
 				return new Response(body, { status: 413 });
 			}
-			let rawMessage = await req.json();
 
-			let messages: ParseMessageResult[];
+			let rawMessage: unknown;
+			try {
+				rawMessage = JSON.parse(requestBody);
+			} catch (error) {
+				const body = JSON.stringify({
+					jsonrpc: '2.0',
+					error: {
+						code: -32700,
+						message: 'Parse error',
+						data: String(error),
+					},
+					id: null,
+				});
+
+				this.onerror?.(error as Error);
+				return new Response(body, { status: 400 });
+			}
 
 			// handle batch and single messages
-			if (Array.isArray(rawMessage)) {
-				messages = rawMessage.map((msg) => JSONRPCMessageSchema.parse(msg)).map(parseMessage);
-			} else {
-				messages = [JSONRPCMessageSchema.parse(rawMessage)].map(parseMessage);
+			const isBatch = Array.isArray(rawMessage);
+			const rawMessages: unknown[] = Array.isArray(rawMessage) ? rawMessage : [rawMessage];
+
+			if (rawMessages.length === 0) {
+				const body = JSON.stringify({
+					jsonrpc: '2.0',
+					error: {
+						code: -32600,
+						message: 'Invalid Request: Batch must not be empty',
+					},
+					id: null,
+				});
+				return new Response(body, { status: 400 });
 			}
 
+			// Each invalid message gets its own error, the valid ones are still processed
+			const parsed = rawMessages.map(parseMessage);
+			const messages = parsed.filter((msg): msg is ParseMessageResult => msg.type !== 'invalid');
+			const errors = parsed.filter((msg): msg is InvalidMessageResult => msg.type === 'invalid').map((msg) => msg.error);
+
 			// Check if this is an initialization request
 			// https://spec.modelcontextprotocol.io/specification/2025-03-26/basic/lifecycle/
 			const isInitializationRequest = messages.some((msg) => msg.type === 'request' && msg.isInitializationRequest);
 
 			if (isInitializationRequest) {
-				if (messages.length > 1) {
+				if (rawMessages.length > 1) {
 					const body = JSON.stringify({
 						jsonrpc: '2.0',
 						error: {
@@ -194,8 +382,24 @@ export class StatelessWorkersTransport implements Transport {
 				}
 			}
 
+			// This transport doesn't remember what was negotiated during initialization, so the
+			// MCP-Protocol-Version header can only be checked against the versions we support.
+			// Clients that don't send it are assumed to be using a version from before the header.
+			const protocolVersion = req.headers.get('mcp-protocol-version');
+			if (!isInitializationRequest && protocolVersion !== null && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+				const body = JSON.stringify({
+					jsonrpc: '2.0',
+					error: {
+						code: -32000,
+						message: `Bad Request: Unsupported protocol version ${protocolVersion}. Supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+					},
+					id: null,
+				});
+				return new Response(body, { status: 400 });
+			}
+
 			// check if it contains requests
-			const hasOnlyNotificationsOrResponses = messages.every((msg) => msg.type === 'notification' || msg.type === 'response');
+			const hasOnlyNotificationsOrResponses = messages.every((msg) => msg.type !== 'request');
 
 			if (hasOnlyNotificationsOrResponses) {
 				// handle each message
@@ -203,11 +407,23 @@ export class StatelessWorkersTransport implements Transport {
 					this.onmessage?.(message.message);
 				}
 
+				// nothing else will be written back, so reply with the errors directly
+				if (errors.length > 0) {
+					return new Response(JSON.stringify(isBatch ? errors : errors[0]), {
+						headers: { 'Content-Type': 'application/json' },
+						status: 400,
+					});
+				}
+
 				// if it only contains notifications or responses, return 202
 				return new Response(null, { status: 202 });
 			}
 
-			// We are always going to return an SSE stream for requests
+			if (this._enableJsonResponse) {
+				return await this.handleJsonResponse(messages, errors, isBatch);
+			}
+
+			// Otherwise we return an SSE stream for requests
 			const headers: Record<string, string> = {
 				'Content-Type': 'text/event-stream',
 				'Cache-Control': 'no-cache',
@@ -218,6 +434,11 @@ export class StatelessWorkersTransport implements Transport {
 			this._writer = writable.getWriter();
 			this._encoder = new TextEncoder();
 
+			// the errors are sent first, the stream then stays open until every request is responded to
+			for (const error of errors) {
+				this.writeMessage(error);
+			}
+
 			for (const message of messages) {
 				// Need to split on type of JSONRPCMessage
 				switch (message.type) {
@@ -241,30 +462,71 @@ export class StatelessWorkersTransport implements Transport {
 			const body = JSON.stringify({
 				jsonrpc: '2.0',
 				error: {
-					code: -32700,
-					message: 'Parse error',
+					code: -32603,
+					message: 'Internal error',
 					data: String(error),
 				},
 				id: null,
 			});
 
 			this.onerror?.(error as Error);
-			return new Response(body, { status: 400 });
+			return new Response(body, { status: 500 });
 		}
 	}
 
-	async send(message: JSONRPCMessage): Promise<void> {
-		if (!this._writer || !this._encoder) {
-			throw new Error('Transport not started');
+	/**
+	 * Passes the messages to the server and waits for every request to be responded to,
+	 * then returns the responses as a single JSON object, or an array for a batch.
+	 * Errors for invalid messages in the batch are returned alongside the responses.
+	 */
+	private async handleJsonResponse(messages: ParseMessageResult[], errors: InvalidRequestError[], isBatch: boolean): Promise<Response> {
+		// Set up the response before passing on any messages, since the server may respond before we finish
+		const ready = new Promise<void>((resolve) => {
+			this._resolveJsonResponse = resolve;
+		});
+		this._jsonResponses.push(...errors);
+
+		for (const message of messages) {
+			if (message.type === 'request') {
+				// Mark that we have received this request, but not answered it yet
+				this._requests.add(message.message.id);
+			}
+			this.onmessage?.(message.message);
 		}
 
-		let parsedMessage = JSONRPCMessageSchema.safeParse(message);
+		await ready;
+
+		const body = isBatch ? this._jsonResponses : this._jsonResponses[0];
+		return new Response(JSON.stringify(body), {
+			headers: { 'Content-Type': 'application/json' },
+			status: 200,
+		});
+	}
 
-		if (!parsedMessage.success) {
+	async send(message: JSONRPCMessage): Promise<void> {
+		let parsed = parseMessage(message);
+
+		if (parsed.type === 'invalid') {
 			throw new Error('Invalid message');
 		}
 
-		let parsed = parseMessage(parsedMessage.data);
+		if (this._enableJsonResponse) {
+			// There is nowhere to send notifications or requests without a stream, so only responses are kept
+			if (parsed.type === 'response' || parsed.type === 'error') {
+				this._requests.delete(parsed.message.id);
+				this._jsonResponses.push(parsed.message);
+			}
+
+			if (this._requests.size === 0) {
+				this._resolveJsonResponse?.();
+				await this.close();
+			}
+			return;
+		}
+
+		if (!this._writer || !this._encoder) {
+			throw new Error('Transport not started');
+		}
 
 		// if we are completing a request with either a result or an error,
 		// remove it from the set of pending requests
@@ -272,15 +534,46 @@ export class StatelessWorkersTransport implements Transport {
 			this._requests.delete(parsed.message.id);
 		}
 
-		this._writer.write(this._encoder.encode(`event: message\ndata: ${JSON.stringify(parsed.message)}\n\n`));
+		this.writeMessage(parsed.message);
 
 		// if we've processed all the requests, close the transport
 		if (this._requests.size === 0) {
 			await this._writer.close();
+			await this.close();
+		}
+	}
+
+	private writeMessage(message: JSONRPCMessage | InvalidRequestError): void {
+		if (!this._writer || !this._encoder) {
+			throw new Error('Transport not started');
 		}
+		this._writer.write(this._encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
 	}
 
 	async close(): Promise<void> {
+		if (this._closed) {
+			return;
+		}
+		this._closed = true;
 		this.onclose?.();
+		this._resolveClosed();
+	}
+
+	/**
+	 * Gives up on the requests that haven't been answered and closes the transport. The server is sent
+	 * `notifications/cancelled` for each of them, so their responses aren't sent to whichever transport
+	 * it is connected to next, and the response stream is ended even if the client stopped reading it.
+	 * A pending JSON response is sent with an internal error for each request instead.
+	 */
+	async abort(reason: string): Promise<void> {
+		for (const requestId of this._requests) {
+			this.onmessage?.({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason } });
+			this._jsonResponses.push({ jsonrpc: '2.0', id: requestId, error: { code: -32603, message: reason } });
+		}
+		this._requests.clear();
+		this._resolveJsonResponse?.();
+		// Not awaited, since aborting waits for any write the client hasn't read yet
+		this._writer?.abort(reason).catch(() => {});
+		await this.close();
 	}
 }
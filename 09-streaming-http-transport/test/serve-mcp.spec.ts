@@ -0,0 +1,131 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { serveMcp } from '../src/serve-mcp';
+
+// For now, you'll need to do something like this to get a correctly-typed
+// `Request` to pass to `worker.fetch()`.
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function createServer() {
+	const server = new McpServer({
+		name: 'test-server',
+		version: '1.0.0',
+	});
+
+	// Waits a little before answering so that concurrent requests overlap
+	server.tool('echo', { text: z.string(), delay: z.number() }, async ({ text, delay }) => {
+		await new Promise((resolve) => setTimeout(resolve, delay));
+		return {
+			content: [{ type: 'text', text }],
+		};
+	});
+
+	return server;
+}
+
+function callEcho(id: number, text: string, delay: number) {
+	return new IncomingRequest('http://example.com/mcp', {
+		method: 'POST',
+		headers: {
+			Accept: 'application/json, text/event-stream',
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			jsonrpc: '2.0',
+			id,
+			method: 'tools/call',
+			params: { name: 'echo', arguments: { text, delay } },
+		}),
+	});
+}
+
+// Reads every message written to an SSE response
+async function readMessages(response: Response) {
+	const text = await response.text();
+	return text
+		.split('\n')
+		.filter((line) => line.startsWith('data: '))
+		.map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+async function sendParallelRequests(handler: ReturnType<typeof serveMcp>) {
+	const ctx = createExecutionContext();
+	const count = 5;
+
+	// Later requests answer first, so responses would cross streams if the transport was shared.
+	// Each stream is read as soon as it arrives, like a client would.
+	const results = await Promise.all(
+		Array.from({ length: count }, async (_, i) => {
+			const response = await handler(callEcho(i, `message ${i}`, (count - i) * 10), env, ctx);
+			return { status: response.status, messages: await readMessages(response) };
+		}),
+	);
+
+	for (const [i, { status, messages }] of results.entries()) {
+		expect(status).toBe(200);
+		expect(messages).toHaveLength(1);
+		expect(messages[0].id).toBe(i);
+		expect(messages[0].result.content).toEqual([{ type: 'text', text: `message ${i}` }]);
+	}
+
+	await waitOnExecutionContext(ctx);
+}
+
+describe('serveMcp', () => {
+	it('answers parallel requests on their own streams with a server factory', async () => {
+		await sendParallelRequests(serveMcp({ server: createServer }));
+	});
+
+	it('answers parallel requests on their own streams with a shared server instance', async () => {
+		await sendParallelRequests(serveMcp({ server: createServer() }));
+	});
+
+	it('moves on from a request whose stream was abandoned with a shared server instance', async () => {
+		const ctx = createExecutionContext();
+		const handler = serveMcp({ server: createServer(), sharedServerTimeoutMs: 100 });
+
+		// Nobody reads this response, so its transport never gets to close by itself
+		const abandoned = await handler(callEcho(1, 'abandoned', 0), env, ctx);
+		expect(abandoned.status).toBe(200);
+
+		const response = await handler(callEcho(2, 'next', 0), env, ctx);
+		const messages = await readMessages(response);
+		expect(messages).toHaveLength(1);
+		expect(messages[0].id).toBe(2);
+		expect(messages[0].result.content).toEqual([{ type: 'text', text: 'next' }]);
+
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('lets a slow request finish on a shared server instance when nothing is waiting for it', async () => {
+		const ctx = createExecutionContext();
+		const handler = serveMcp({ server: createServer(), sharedServerTimeoutMs: 50 });
+
+		const response = await handler(callEcho(1, 'slow', 200), env, ctx);
+		const messages = await readMessages(response);
+		expect(messages).toHaveLength(1);
+		expect(messages[0].result.content).toEqual([{ type: 'text', text: 'slow' }]);
+
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('answers a timed out JSON request with an error when another one is waiting', async () => {
+		const ctx = createExecutionContext();
+		const handler = serveMcp({ server: createServer(), enableJsonResponse: true, sharedServerTimeoutMs: 50 });
+
+		const slow = handler(callEcho(1, 'slow', 300), env, ctx);
+		const next = handler(callEcho(2, 'next', 0), env, ctx);
+
+		const timedOut = await (await slow).json<any>();
+		expect(timedOut.id).toBe(1);
+		expect(timedOut.error.code).toBe(-32603);
+
+		const answered = await (await next).json<any>();
+		expect(answered.id).toBe(2);
+		expect(answered.result.content).toEqual([{ type: 'text', text: 'next' }]);
+
+		await waitOnExecutionContext(ctx);
+	});
+});
@@ -0,0 +1,184 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { serveMcp } from '../src/serve-mcp';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function createServer() {
+	const server = new McpServer({
+		name: 'test-server',
+		version: '1.0.0',
+	});
+
+	server.tool('echo', { text: z.string() }, async ({ text }) => ({
+		content: [{ type: 'text', text }],
+	}));
+
+	return server;
+}
+
+function post(body: string, headers: Record<string, string> = {}) {
+	return new IncomingRequest('http://example.com/mcp', {
+		method: 'POST',
+		headers: {
+			Accept: 'application/json, text/event-stream',
+			'Content-Type': 'application/json',
+			...headers,
+		},
+		body,
+	});
+}
+
+// A batch with one valid request between two invalid entries
+const mixedBatch = JSON.stringify([
+	{ jsonrpc: '2.0', id: 'no-method' },
+	{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'echo', arguments: { text: 'hello' } } },
+	'not a message',
+]);
+
+function expectMixedBatchResults(messages: any[]) {
+	expect(messages).toHaveLength(3);
+	expect(messages).toContainEqual({ jsonrpc: '2.0', id: 'no-method', error: { code: -32600, message: 'Invalid Request' } });
+	expect(messages).toContainEqual({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+	expect(messages.find((message) => message.id === 1).result.content).toEqual([{ type: 'text', text: 'hello' }]);
+}
+
+describe('StatelessWorkersTransport', () => {
+	it('returns a parse error for malformed JSON', async () => {
+		const ctx = createExecutionContext();
+		const response = await serveMcp({ server: createServer })(post('{"jsonrpc": "2.0",'), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(400);
+		const body = await response.json<any>();
+		expect(body.error.code).toBe(-32700);
+		expect(body.id).toBeNull();
+	});
+
+	it('returns an invalid request error for a message that is not JSON-RPC', async () => {
+		const ctx = createExecutionContext();
+		const response = await serveMcp({ server: createServer })(post('{"hello": "world"}'), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+	});
+
+	it('answers each invalid batch entry and still processes the valid ones', async () => {
+		const ctx = createExecutionContext();
+		const response = await serveMcp({ server: createServer })(post(mixedBatch), env, ctx);
+
+		expect(response.status).toBe(200);
+		const text = await response.text();
+		const messages = text
+			.split('\n')
+			.filter((line) => line.startsWith('data: '))
+			.map((line) => JSON.parse(line.slice('data: '.length)));
+		expectMixedBatchResults(messages);
+
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('includes the errors for invalid batch entries in a JSON response', async () => {
+		const ctx = createExecutionContext();
+		const response = await serveMcp({ server: createServer, enableJsonResponse: true })(post(mixedBatch), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('application/json');
+		expectMixedBatchResults(await response.json());
+	});
+
+	it('rejects an unsupported MCP-Protocol-Version header', async () => {
+		const ctx = createExecutionContext();
+		const response = await serveMcp({ server: createServer })(
+			post(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }), { 'MCP-Protocol-Version': '1999-01-01' }),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(400);
+		const body = await response.json<any>();
+		expect(body.error.message).toContain('Unsupported protocol version 1999-01-01');
+	});
+
+	it('answers DELETE with 405, since there are no sessions to terminate', async () => {
+		const ctx = createExecutionContext();
+		const request = new IncomingRequest('http://example.com/mcp', {
+			method: 'DELETE',
+			headers: { 'Mcp-Session-Id': 'some-session' },
+		});
+		const response = await serveMcp({ server: createServer })(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(405);
+		const body = await response.json<any>();
+		expect(body.error.message).toBe('Method not allowed');
+	});
+
+	it('rejects requests from origins that are not allowed', async () => {
+		const ctx = createExecutionContext();
+		const handler = serveMcp({ server: createServer, allowedOrigins: ['https://allowed.example.com'] });
+		const message = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+		const forbidden = await handler(post(message, { Origin: 'https://evil.example.com' }), env, ctx);
+		expect(forbidden.status).toBe(403);
+		expect(forbidden.headers.get('access-control-allow-origin')).toBeNull();
+
+		const allowed = await handler(post(message, { Origin: 'https://allowed.example.com' }), env, ctx);
+		expect(allowed.status).toBe(200);
+		expect(allowed.headers.get('access-control-allow-origin')).toBe('https://allowed.example.com');
+		await allowed.text();
+
+		await waitOnExecutionContext(ctx);
+	});
+
+	it("rejects the server's own origin unless it is allowed, since DNS rebinding can fake it", async () => {
+		const ctx = createExecutionContext();
+		const message = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+		const rebound = await serveMcp({ server: createServer })(post(message, { Origin: 'http://example.com' }), env, ctx);
+		expect(rebound.status).toBe(403);
+
+		const listed = await serveMcp({ server: createServer, allowedOrigins: ['http://example.com'] })(
+			post(message, { Origin: 'http://example.com' }),
+			env,
+			ctx,
+		);
+		expect(listed.status).toBe(200);
+		await listed.text();
+
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('rejects a chunked body larger than the limit', async () => {
+		const ctx = createExecutionContext();
+		const message = JSON.stringify({
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'tools/call',
+			params: { name: 'echo', arguments: { text: 'x'.repeat(100) } },
+		});
+		// A stream body is sent without a Content-Length header
+		const body = new Blob([message]).stream();
+		const request = new IncomingRequest('http://example.com/mcp', {
+			method: 'POST',
+			headers: {
+				Accept: 'application/json, text/event-stream',
+				'Content-Type': 'application/json',
+			},
+			body,
+		});
+		expect(request.headers.get('content-length')).toBeNull();
+
+		const response = await serveMcp({ server: createServer, maxMessageSize: 64 })(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(413);
+		const error = await response.json<any>();
+		expect(error.error.message).toBe('Request body too large. Maximum size is 64 bytes');
+	});
+});
@@ -1,22 +1,76 @@
+// Which browser origins may call the server: a list of origins or patterns
+// ("*" allows any origin), or a function that decides for each origin
+export type OriginPolicy = (string | RegExp)[] | ((origin: string) => boolean);
+
 export interface CORSOptions {
   origin?: string;
+  // Defaults to `origin` if it is set. The server's own origin must be listed too
+  allowedOrigins?: OriginPolicy;
   methods?: string;
   headers?: string;
   maxAge?: number;
 }
 
-// CORS helper function
+// Returns the value for Access-Control-Allow-Origin, or null if the origin of
+// the request isn't allowed. Browsers always send an Origin with cross-origin
+// requests, so checking it keeps other sites from talking to the server. The
+// server's own origin isn't trusted unless it is listed: a DNS rebinding attack
+// points the attacker's host name at the server, so their page's Origin
+// matches the request URL.
+export function getAllowedOrigin(
+  request: Request,
+  corsOptions?: CORSOptions
+): string | null {
+  const origin = request.headers.get("Origin");
+
+  // Requests without an Origin don't come from a web page
+  if (!origin) {
+    return corsOptions?.origin || "*";
+  }
+
+  const policy =
+    corsOptions?.allowedOrigins ??
+    (corsOptions?.origin ? [corsOptions.origin] : []);
+  const allowed =
+    typeof policy === "function"
+      ? policy(origin)
+      : policy.some((allowedOrigin) =>
+          typeof allowedOrigin === "string"
+            ? allowedOrigin === "*" || allowedOrigin === origin
+            : allowedOrigin.test(origin)
+        );
+
+  return allowed ? origin : null;
+}
+
+// CORS helper function. Rejects disallowed origins with a 403 and answers
+// preflight requests, using the same policy for both.
 export function handleCORS(
   request: Request,
   corsOptions?: CORSOptions
 ): Response | null {
-  const origin = request.headers.get("Origin") || "*";
+  const allowedOrigin = getAllowedOrigin(request, corsOptions);
+  if (allowedOrigin === null) {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: "Forbidden: Origin not allowed",
+      },
+      id: null,
+    });
+    return new Response(body, { status: 403 });
+  }
+
   const corsHeaders = {
-    "Access-Control-Allow-Origin": corsOptions?.origin || origin,
+    "Access-Control-Allow-Origin": allowedOrigin,
     "Access-Control-Allow-Methods":
-      corsOptions?.methods || "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": corsOptions?.headers || "Content-Type",
+      corsOptions?.methods || "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers":
+      corsOptions?.headers ||
+      "Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
     "Access-Control-Max-Age": (corsOptions?.maxAge || 86400).toString(),
+    Vary: "Origin",
   };
 
   if (request.method === "OPTIONS") {
@@ -5,9 +5,16 @@ import {
   CallToolResult,
   ReadResourceResult,
 } from "@modelcontextprotocol/sdk/types.js";
-import { McpSession, Mcp } from "./mcp.js";
+import { McpSession, Mcp, McpServerContext } from "./mcp.js";
 
-function createServer(session: DurableObjectStub<McpSession>) {
+// Kept on the session between requests
+type GreetingState = {
+  greeted: string[];
+};
+
+function createServer({
+  session,
+}: McpServerContext<Env, unknown, GreetingState>) {
   // Create an MCP server with implementation details
   const server = new McpServer({
     name: "simple-streamable-http-server",
@@ -22,6 +29,11 @@ function createServer(session: DurableObjectStub<McpSession>) {
       name: z.string().describe("Name to greet"),
     },
     async ({ name }): Promise<CallToolResult> => {
+      const state = await session.getSessionState();
+      await session.setSessionState({
+        greeted: [...(state?.greeted ?? []), name],
+      });
+
       return {
         content: [
           {
@@ -33,6 +45,23 @@ function createServer(session: DurableObjectStub<McpSession>) {
     }
   );
 
+  // Register a tool that reads the session state
+  server.tool(
+    "list-greeted",
+    "Lists everyone greeted in this session",
+    async (): Promise<CallToolResult> => {
+      const state = await session.getSessionState();
+      return {
+        content: [
+          {
+            type: "text",
+            text: state?.greeted.join(", ") || "Nobody has been greeted yet",
+          },
+        ],
+      };
+    }
+  );
+
   // Register a simple prompt
   server.prompt(
     "greeting-template",
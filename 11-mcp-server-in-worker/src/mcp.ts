@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { Agent, WSMessage, Connection } from "agents";
+import { Agent, WSMessage, Connection, ConnectionContext } from "agents";
 import type {
   JSONRPCError,
   JSONRPCMessage,
@@ -22,34 +22,456 @@ import {
   JSONRPCNotificationSchema,
   JSONRPCRequestSchema,
   JSONRPCResponseSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { CORSOptions, handleCORS } from "./cors.js";
+import { CORSOptions, getAllowedOrigin, handleCORS } from "./cors.js";
 
 const MAXIMUM_MESSAGE_SIZE_BYTES = 4 * 1024 * 1024; // 4MB
 
+// The number of events kept per session for resuming streams
+const MAXIMUM_STORED_EVENTS = 1000;
+
+// Messages that aren't related to a request are sent on the standalone GET stream
+const STANDALONE_STREAM_ID = "standalone";
+
+// How long the session waits for a client to answer a server-to-client request
+const CLIENT_RESPONSE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+// Clients send the MCP-Protocol-Version header from this version of the
+// protocol onwards. Older clients never send it.
+const PROTOCOL_VERSION_HEADER_SINCE = "2025-06-18";
+
+// Proxies close connections that are idle for about 100s, so SSE streams get a
+// comment well before that
+const HEARTBEAT_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+// How long a session can go without a request before it is terminated
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// The McpSession that indexes which sessions are subscribed to each resource
+const RESOURCE_SUBSCRIPTIONS_NAME = "resource-subscriptions";
+
 type MaybePromise<T> = T | Promise<T>;
 
-// This will need to keep a copy of all the messages sent on this session
-// so that it can send them to the streamable transport when requested.
-// It will also need to be able to open a WebSocket connection to support
-// GET requests
-export class McpSession<Env = unknown, State = unknown> extends Agent<
-  Env,
-  State
-> {
+// The transport a session was created with, which is also the prefix of the
+// name of its Durable Object
+type SessionTransport = "sse" | "streamable-http";
+
+type StoredEvent = {
+  streamId: string;
+  message: JSONRPCMessage;
+};
+
+// Sent from the session to the worker holding open a Streamable GET request
+type SessionEvent = {
+  type: "mcp_event";
+  eventId: string;
+  message: JSONRPCMessage;
+};
+
+// Sent from the session to the worker holding open an SSE stream, for a
+// message the session itself sends to the client (e.g. a resource update).
+// Plain JSON-RPC messages on that websocket are for the worker's McpServer.
+type ClientDelivery = {
+  type: "mcp_deliver";
+  message: JSONRPCMessage;
+};
+
+// Writes a `: ping` comment to an SSE stream every `intervalMs` until it is
+// closed. Clients ignore comments, but they keep the connection from looking idle.
+function startHeartbeat(
+  writer: WritableStreamDefaultWriter,
+  encoder: TextEncoder,
+  intervalMs: number
+) {
+  if (intervalMs <= 0) {
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    writer
+      .write(encoder.encode(": ping\n\n"))
+      .catch(() => clearInterval(heartbeat));
+  }, intervalMs);
+  writer.closed.catch(() => {}).finally(() => clearInterval(heartbeat));
+}
+
+function isSessionEvent(value: unknown): value is SessionEvent {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    value.type === "mcp_event" &&
+    "eventId" in value &&
+    typeof value.eventId === "string" &&
+    "message" in value &&
+    JSONRPCMessageSchema.safeParse(value.message).success
+  );
+}
+
+function isClientDelivery(value: unknown): value is ClientDelivery {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    value.type === "mcp_deliver" &&
+    "message" in value &&
+    JSONRPCMessageSchema.safeParse(value.message).success
+  );
+}
+
+function eventKey(eventId: number) {
+  return `event:${eventId.toString().padStart(16, "0")}`;
+}
+
+function subscriptionKey(uri: string) {
+  return `subscription:${uri}`;
+}
+
+// Whether the server has registered any resources. McpServer only handles
+// `resources/read` once it has, and the SDK has no other public way to tell.
+function hasResources(mcpServer: McpServer) {
+  try {
+    mcpServer.server.assertCanSetRequestHandler(
+      ReadResourceRequestSchema.shape.method.value
+    );
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Handles `resources/subscribe` and `resources/unsubscribe` for a session. The
+// subscription is kept on the session, and the session is added to the index
+// that `Mcp.notifyResourceUpdated` reads, so any worker can reach it. Servers
+// without resources don't advertise subscriptions.
+function handleResourceSubscriptions(
+  mcpServer: McpServer,
+  namespace: DurableObjectNamespace<McpSession>,
+  transport: SessionTransport,
+  sessionId: string
+) {
+  if (!hasResources(mcpServer)) {
+    return;
+  }
+
+  const sessionName = `${transport}:${sessionId}`;
+  const session = namespace.get(namespace.idFromName(sessionName));
+  const subscriptions = namespace.get(
+    namespace.idFromName(RESOURCE_SUBSCRIPTIONS_NAME)
+  );
+
+  mcpServer.server.registerCapabilities({ resources: { subscribe: true } });
+  mcpServer.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request) => {
+      await session.subscribe(request.params.uri, transport);
+      await subscriptions.addSubscriber(request.params.uri, sessionName);
+      return {};
+    }
+  );
+  mcpServer.server.setRequestHandler(
+    UnsubscribeRequestSchema,
+    async (request) => {
+      await session.unsubscribe(request.params.uri);
+      await subscriptions.removeSubscriber(request.params.uri, sessionName);
+      return {};
+    }
+  );
+}
+
+// Checks the MCP-Protocol-Version header of a request against the version
+// negotiated during initialization. Returns an error message if the request
+// should be rejected.
+function validateProtocolVersion(
+  header: string | null,
+  negotiatedVersion: string | undefined
+): string | undefined {
+  if (header === null) {
+    if (
+      negotiatedVersion !== undefined &&
+      negotiatedVersion >= PROTOCOL_VERSION_HEADER_SINCE
+    ) {
+      return `Bad Request: MCP-Protocol-Version header is required for protocol version ${negotiatedVersion}`;
+    }
+    return undefined;
+  }
+
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(header)) {
+    return `Bad Request: Unsupported protocol version ${header}. Supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`;
+  }
+
+  if (negotiatedVersion !== undefined && header !== negotiatedVersion) {
+    return `Bad Request: MCP-Protocol-Version ${header} does not match the negotiated protocol version ${negotiatedVersion}`;
+  }
+}
+
+// Reads the request body as text, stopping as soon as it grows past `maxBytes`.
+// The Content-Length header can't be relied on, since chunked requests don't
+// send one. Returns null if the body is too large.
+async function readRequestBody(
+  request: Request,
+  maxBytes: number
+): Promise<string | null> {
+  if (!request.body) {
+    return "";
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+function protocolVersionErrorResponse(message: string) {
+  const body = JSON.stringify({
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message,
+    },
+    id: null,
+  });
+  return new Response(body, { status: 400 });
+}
+
+// Passed to the `getMcpServer` factory for every request, so that tools
+// know who is calling and can reach the session and bindings
+export type McpServerContext<
+  Env = unknown,
+  Props = unknown,
+  SessionState = unknown,
+> = {
+  session: DurableObjectStub<
+    McpSession<unknown, unknown, unknown, SessionState>
+  >;
+  sessionId: string;
+  // The auth props for the request, e.g. the `ctx.props` that
+  // `@cloudflare/workers-oauth-provider` sets from the access token
+  props: Props;
+  headers: Headers;
+  env: Env;
+};
+
+// Keeps a copy of the messages sent on this session so that they can be
+// replayed when a client reconnects with a Last-Event-ID. It also holds
+// the WebSocket connection for the long-lived GET request.
+export class McpSession<
+  Env = unknown,
+  State = unknown,
+  Props = unknown,
+  SessionState = unknown,
+> extends Agent<Env, State> {
+  // Resolvers for the workers waiting on a client's answer to a server-to-client
+  // request. These are only kept in memory: the waiting workers' calls keep the
+  // session from being evicted, but if it restarts (e.g. on deploy) the calls
+  // reject and the workers fail their requests, and a response that arrives
+  // afterwards finds nobody waiting.
+  #pendingClientResponses = new Map<
+    string,
+    (message: JSONRPCResponse | JSONRPCError | null) => void
+  >();
+
+  // Live events held back while a resuming GET stream is sent the events it
+  // missed, so that they reach it after the replay and in order
+  #resumeBuffer?: SessionEvent[];
+
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
   }
 
-  async setInitialized(sessionId: string) {
+  // The props of the request that started the session are kept with it
+  async setInitialized(sessionId: string, props?: Props) {
     await this.ctx.storage.put("sessionId", sessionId);
     await this.ctx.storage.put("initialized", true);
+    if (props !== undefined) {
+      await this.ctx.storage.put("props", props);
+    }
+  }
+
+  async getProps(): Promise<Props | undefined> {
+    return this.ctx.storage.get<Props>("props");
+  }
+
+  // State for tools that lasts as long as the session, e.g. a shopping cart or
+  // the account the user picked. Every worker serving a request with this
+  // Mcp-Session-Id reads the same state. Unlike the Agent's `setState`, this
+  // isn't broadcast to the GET stream.
+  async getSessionState(): Promise<SessionState | undefined> {
+    return this.ctx.storage.get<SessionState>("sessionState");
+  }
+
+  async setSessionState(state: SessionState) {
+    await this.ctx.storage.put("sessionState", state);
+  }
+
+  async subscribe(uri: string, transport: SessionTransport) {
+    await this.ctx.storage.put({
+      [subscriptionKey(uri)]: true,
+      subscriptionTransport: transport,
+    });
+  }
+
+  async unsubscribe(uri: string) {
+    await this.ctx.storage.delete(subscriptionKey(uri));
+  }
+
+  // Sends `notifications/resources/updated` on the session's live stream.
+  // Returns false if the session isn't subscribed or its stream is gone, so
+  // the caller can drop it from the index.
+  async onResourceUpdated(uri: string): Promise<boolean> {
+    const subscribed = await this.ctx.storage.get(subscriptionKey(uri));
+    if (!subscribed) {
+      return false;
+    }
+
+    const notification: JSONRPCNotification = {
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri },
+    };
+
+    // SSE sessions only have the one stream. Streamable sessions store the
+    // notification for the GET stream, which replays it if it reconnects.
+    const transport = await this.ctx.storage.get<SessionTransport>(
+      "subscriptionTransport"
+    );
+    if (transport === "sse") {
+      const error = await this.deliverToSSEClient(notification);
+      return !error;
+    }
+    await this.onStreamableHttpMessage(notification);
+    return true;
+  }
+
+  // The methods below are only used on the McpSession that indexes the
+  // sessions subscribed to each resource
+
+  async addSubscriber(uri: string, sessionName: string) {
+    const subscribers = await this.getSubscribers(uri);
+    if (!subscribers.includes(sessionName)) {
+      await this.ctx.storage.put(`subscribers:${uri}`, [
+        ...subscribers,
+        sessionName,
+      ]);
+    }
+  }
+
+  async removeSubscriber(uri: string, sessionName: string) {
+    const subscribers = await this.getSubscribers(uri);
+    const remaining = subscribers.filter((name) => name !== sessionName);
+    if (remaining.length > 0) {
+      await this.ctx.storage.put(`subscribers:${uri}`, remaining);
+    } else {
+      await this.ctx.storage.delete(`subscribers:${uri}`);
+    }
+  }
+
+  async getSubscribers(uri: string): Promise<string[]> {
+    return (await this.ctx.storage.get<string[]>(`subscribers:${uri}`)) ?? [];
   }
 
   async isInitialized() {
     return (await this.ctx.storage.get("initialized")) === true;
   }
 
+  // The version agreed on in the initialize response. Later requests must
+  // use the same version in their MCP-Protocol-Version header.
+  async setProtocolVersion(protocolVersion: string) {
+    await this.ctx.storage.put("protocolVersion", protocolVersion);
+  }
+
+  async getProtocolVersion(): Promise<string | undefined> {
+    return this.ctx.storage.get<string>("protocolVersion");
+  }
+
+  // Ends the session. Clears the session state so later requests with
+  // this session id get a 404, and closes any open GET stream.
+  async terminate() {
+    await this.ctx.storage.delete([
+      "sessionId",
+      "initialized",
+      "props",
+      "sessionState",
+      "protocolVersion",
+      "eventCounter",
+      "lastActivityAt",
+      "idleTimeoutMs",
+      "subscriptionTransport",
+    ]);
+
+    // Storage deletes are limited to 128 keys at a time
+    for (const prefix of ["event:", "subscription:"]) {
+      const entries = await this.ctx.storage.list({ prefix });
+      const keys = [...entries.keys()];
+      for (let i = 0; i < keys.length; i += 128) {
+        await this.ctx.storage.delete(keys.slice(i, i + 128));
+      }
+    }
+
+    for (const websocket of this.ctx.getWebSockets()) {
+      try {
+        websocket.close(1000, "Session terminated");
+      } catch (e) {
+        // Ignore errors when closing
+      }
+    }
+  }
+
+  // Records a request on the session and makes sure an idle check is scheduled.
+  // The check runs on the Durable Object's alarm, so it fires while hibernating.
+  async touch(idleTimeoutMs: number) {
+    await this.ctx.storage.put({ lastActivityAt: Date.now(), idleTimeoutMs });
+
+    const scheduled = this.getSchedules().some(
+      (schedule) => schedule.callback === "closeIfIdle"
+    );
+    if (!scheduled) {
+      await this.schedule(idleTimeoutMs / 1000, "closeIfIdle");
+    }
+  }
+
+  // Terminates the session if it hasn't had a request for `idleTimeoutMs`,
+  // otherwise checks again when it next could have been idle for that long
+  async closeIfIdle() {
+    const lastActivityAt = await this.ctx.storage.get<number>("lastActivityAt");
+    const idleTimeoutMs = await this.ctx.storage.get<number>("idleTimeoutMs");
+    if (lastActivityAt === undefined || idleTimeoutMs === undefined) {
+      return;
+    }
+
+    const idleUntil = lastActivityAt + idleTimeoutMs;
+    if (Date.now() < idleUntil) {
+      await this.schedule(new Date(idleUntil), "closeIfIdle");
+      return;
+    }
+
+    await this.terminate();
+  }
+
   async getSessionId(): Promise<string> {
     const sessionId = await this.ctx.storage.get("sessionId");
     if (!sessionId) {
@@ -63,10 +485,114 @@ export class McpSession<Env = unknown, State = unknown> extends Agent<
     // If we get an upgrade while already connected, we should error
     const websockets = this.ctx.getWebSockets();
     if (websockets.length > 0) {
-      return new Response("Websocket already connected", { status: 400 });
+      return new Response("Websocket already connected", { status: 409 });
     }
 
-    return super.fetch(request);
+    const lastEventId = request.headers.get("last-event-id");
+    if (!lastEventId) {
+      return super.fetch(request);
+    }
+
+    // Accept the connection before looking up the events to replay, so that
+    // nothing stored in between is missed. Events stored meanwhile are
+    // buffered, then sent after the replay unless it already included them.
+    this.#resumeBuffer = [];
+    try {
+      const response = await super.fetch(request);
+      const replay = await this.getEventsAfter(lastEventId);
+
+      const websocket = this.getWebSocket();
+      if (websocket) {
+        const replayed = new Set(replay.map((event) => event.eventId));
+        const live = this.#resumeBuffer.filter(
+          (event) => !replayed.has(event.eventId)
+        );
+        for (const event of [...replay, ...live]) {
+          websocket.send(JSON.stringify(event));
+        }
+      }
+
+      return response;
+    } finally {
+      this.#resumeBuffer = undefined;
+    }
+  }
+
+  // The GET stream always receives messages for the standalone stream. If the
+  // client is resuming a POST stream, it also receives messages for that stream.
+  async getConnectionTags(
+    connection: Connection,
+    ctx: ConnectionContext
+  ): Promise<string[]> {
+    const tags = [STANDALONE_STREAM_ID];
+    const lastEventId = ctx.request.headers.get("last-event-id");
+    if (lastEventId) {
+      const event = await this.getEvent(lastEventId);
+      if (event && event.streamId !== STANDALONE_STREAM_ID) {
+        tags.push(event.streamId);
+      }
+    }
+    return tags;
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const counter =
+      ((await this.ctx.storage.get<number>("eventCounter")) ?? 0) + 1;
+    await this.ctx.storage.put({
+      eventCounter: counter,
+      [eventKey(counter)]: { streamId, message } satisfies StoredEvent,
+    });
+
+    // Keep the log bounded by dropping the oldest event
+    if (counter > MAXIMUM_STORED_EVENTS) {
+      await this.ctx.storage.delete(eventKey(counter - MAXIMUM_STORED_EVENTS));
+    }
+
+    const eventId = counter.toString();
+
+    // Forward the event to the GET stream if it is listening for this stream
+    for (const connection of this.getConnections(streamId)) {
+      const event: SessionEvent = { type: "mcp_event", eventId, message };
+      if (this.#resumeBuffer) {
+        this.#resumeBuffer.push(event);
+      } else {
+        connection.send(JSON.stringify(event));
+      }
+    }
+
+    return eventId;
+  }
+
+  async getEvent(eventId: string): Promise<StoredEvent | undefined> {
+    if (!/^\d+$/.test(eventId)) {
+      return undefined;
+    }
+    return this.ctx.storage.get<StoredEvent>(eventKey(Number(eventId)));
+  }
+
+  // Returns the events on the same stream as `lastEventId` that were stored after it
+  async getEventsAfter(lastEventId: string): Promise<SessionEvent[]> {
+    const lastEvent = await this.getEvent(lastEventId);
+    if (!lastEvent) {
+      return [];
+    }
+
+    const events = await this.ctx.storage.list<StoredEvent>({
+      prefix: "event:",
+      start: eventKey(Number(lastEventId) + 1),
+    });
+
+    const replay: SessionEvent[] = [];
+    for (const [key, event] of events) {
+      if (event.streamId === lastEvent.streamId) {
+        replay.push({
+          type: "mcp_event",
+          eventId: Number(key.slice("event:".length)).toString(),
+          message: event.message,
+        });
+      }
+    }
+    return replay;
   }
 
   getWebSocket() {
@@ -87,15 +613,56 @@ export class McpSession<Env = unknown, State = unknown> extends Agent<
     websocket.send(JSON.stringify(message));
   }
 
-  async onStreamableHttpMessage(
-    sessionId: string,
-    request: Request
-  ): Promise<Error | null> {
-    // if there is a connection listening, we might need to proxy the message
-    // over that connection
+  // Sends a message to the SSE client, through the worker holding its stream
+  async deliverToSSEClient(message: JSONRPCMessage): Promise<Error | void> {
     const websocket = this.getWebSocket();
+    if (!websocket) {
+      return new Error("No websocket connection found");
+    }
+
+    const delivery: ClientDelivery = { type: "mcp_deliver", message };
+    websocket.send(JSON.stringify(delivery));
+  }
+
+  // Called by the worker that sent a request to the client (e.g. sampling/createMessage).
+  // The client answers on a later POST, which may be handled by a different worker,
+  // so this resolves once that worker passes the response to `onClientResponse`.
+  // Resolves with null if the client doesn't answer in time.
+  async waitForClientResponse(
+    requestId: string
+  ): Promise<JSONRPCResponse | JSONRPCError | null> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.#pendingClientResponses.delete(requestId);
+        resolve(null);
+      }, CLIENT_RESPONSE_TIMEOUT_MS);
+
+      this.#pendingClientResponses.set(requestId, (message) => {
+        clearTimeout(timeout);
+        this.#pendingClientResponses.delete(requestId);
+        resolve(message);
+      });
+    });
+  }
+
+  // Returns false if no worker is waiting for this response
+  async onClientResponse(
+    message: JSONRPCResponse | JSONRPCError
+  ): Promise<boolean> {
+    const resolve = this.#pendingClientResponses.get(String(message.id));
+    if (!resolve) {
+      return false;
+    }
 
-    return null;
+    resolve(message);
+    return true;
+  }
+
+  async onStreamableHttpMessage(message: JSONRPCMessage): Promise<string> {
+    // Store the message on the standalone stream. If there is a GET stream
+    // listening it is forwarded straight away, otherwise the client can
+    // replay it when it reconnects.
+    return this.storeEvent(STANDALONE_STREAM_ID, message);
   }
 }
 
@@ -145,7 +712,8 @@ class McpSSESessionTransport implements Transport {
 
   async getSSEStream(
     postEndpoint: URL,
-    corsOptions?: CORSOptions
+    corsOptions?: CORSOptions,
+    heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS
   ): Promise<Response> {
     const self = this;
 
@@ -171,6 +739,7 @@ class McpSSESessionTransport implements Transport {
       });
     }
     ws.accept();
+    startHeartbeat(this.writer, this.encoder, heartbeatIntervalMs);
 
     // Handle WebSocket errors
     ws.addEventListener("error", (error) => {
@@ -184,7 +753,7 @@ class McpSSESessionTransport implements Transport {
       onError(error).catch(console.error);
     });
 
-    // Handle WebSocket closure
+    // Handle WebSocket closure, e.g. when the session is terminated
     ws.addEventListener("close", () => {
       async function onClose() {
         try {
@@ -192,6 +761,7 @@ class McpSSESessionTransport implements Transport {
         } catch (error) {
           console.error("Error closing SSE connection:", error);
         }
+        self.onclose?.();
       }
       onClose().catch(console.error);
     });
@@ -208,6 +778,12 @@ class McpSSESessionTransport implements Transport {
 
           const message = JSON.parse(data);
 
+          // messages from the session itself go straight to the client
+          if (isClientDelivery(message)) {
+            await self.send(message.message);
+            return;
+          }
+
           // validate that the message is a valid JSONRPC message
           const result = JSONRPCMessageSchema.safeParse(message);
           if (!result.success) {
@@ -262,6 +838,13 @@ class McpStreamableSessionTransport implements Transport {
 
   #started = false;
   #requestIds: Set<string | number> = new Set();
+  // Identifies the events written to this stream in the session's event log
+  #streamId = crypto.randomUUID();
+  // Responses buffered when replying with a single JSON response
+  #jsonResponses: JSONRPCMessage[] = [];
+  #resolveJsonResponse?: () => void;
+  // The id of the initialize request, if this stream is initializing the session
+  #initializeRequestId?: string | number;
 
   // Tranport requirements
   onclose?: () => void;
@@ -270,7 +853,8 @@ class McpStreamableSessionTransport implements Transport {
 
   constructor(
     readonly sessionId: string,
-    private readonly session: DurableObjectStub<McpSession>
+    private readonly session: DurableObjectStub<McpSession>,
+    private readonly enableJsonResponse = false
   ) {
     // Create a Transform Stream for the SSE response
     const { readable, writable } = new TransformStream();
@@ -286,8 +870,12 @@ class McpStreamableSessionTransport implements Transport {
     this.#started = true;
   }
 
-  async writeMessageToStream(message: JSONRPCMessage) {
-    const messageText = `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+  async writeMessageToStream(message: JSONRPCMessage, eventId?: string) {
+    // Every message is stored in the session so the client can resume
+    // the stream with Last-Event-ID if it gets disconnected
+    eventId ??= await this.session.storeEvent(this.#streamId, message);
+
+    const messageText = `id: ${eventId}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`;
     await this.writer.write(this.encoder.encode(messageText));
   }
 
@@ -297,55 +885,281 @@ class McpStreamableSessionTransport implements Transport {
     }
 
     if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
-      this.#requestIds.delete(message.id.toString());
-      await this.writeMessageToStream(message);
+      this.#requestIds.delete(message.id);
 
-      // send a copy to the session
-      // TODO
+      // Remember the negotiated version before the client can send another request
+      if (
+        isJSONRPCResponse(message) &&
+        message.id === this.#initializeRequestId &&
+        typeof message.result.protocolVersion === "string"
+      ) {
+        await this.session.setProtocolVersion(message.result.protocolVersion);
+      }
+
+      if (this.enableJsonResponse) {
+        this.#jsonResponses.push(message);
+      } else {
+        await this.writeMessageToStream(message);
+      }
     } else if (isJSONRPCRequest(message)) {
-      // send to the session
-      // TODO
+      await this.sendRequestToClient(message, options);
     } else if (isJSONRPCNotification(message)) {
       // if we have a relatedRequestId, send to the stream
-      if (
-        options?.relatedRequestId &&
-        this.#requestIds.has(options.relatedRequestId)
-      ) {
+      if (this.isRelatedToStream(options)) {
         await this.writeMessageToStream(message);
+      } else {
+        // otherwise, send to the session so it can be delivered over
+        // the standalone GET stream
+        await this.session.onStreamableHttpMessage(message);
       }
-      // send to the session
-      // TODO
     }
 
     if (this.#requestIds.size === 0) {
-      await this.writer.close();
+      if (this.enableJsonResponse) {
+        this.#resolveJsonResponse?.();
+      } else {
+        await this.writer.close();
+      }
     }
   }
 
+  // Messages related to a request we are processing are written to this stream.
+  // A JSON response has no room for them, so they go to the session instead.
+  isRelatedToStream(options?: TransportSendOptions) {
+    return (
+      !this.enableJsonResponse &&
+      options?.relatedRequestId !== undefined &&
+      this.#requestIds.has(options.relatedRequestId)
+    );
+  }
+
+  // Sends a server-to-client request (sampling, roots, etc.) and waits for the
+  // client's response to come back through the session.
+  async sendRequestToClient(
+    message: JSONRPCRequest,
+    options?: TransportSendOptions
+  ) {
+    // Every worker has its own McpServer with its own request ids, so we give
+    // the request an id that is unique within the session and map it back
+    // when the response arrives
+    const sessionRequestId = crypto.randomUUID();
+    const request: JSONRPCRequest = { ...message, id: sessionRequestId };
+
+    // Start waiting before sending so the response can't arrive first
+    const response = this.session.waitForClientResponse(sessionRequestId);
+
+    // Send the request on this stream if it is related to a request we are
+    // processing, otherwise send it on the standalone GET stream
+    if (this.isRelatedToStream(options)) {
+      await this.writeMessageToStream(request);
+    } else {
+      await this.session.onStreamableHttpMessage(request);
+    }
+
+    // If the client doesn't answer, or the session restarts while waiting,
+    // the server's request fails rather than waiting for an answer that
+    // can't arrive
+    const fail = (error: Error) => {
+      this.onerror?.(error);
+      this.onmessage?.({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: -32603, message: error.message },
+      });
+    };
+
+    response
+      .then((result: unknown) => {
+        // RPC can't type the message's open-ended fields, so it is checked
+        // here. It is null if the client didn't answer in time.
+        if (!isJSONRPCResponse(result) && !isJSONRPCError(result)) {
+          fail(new Error(`No response from client for request ${message.id}`));
+          return;
+        }
+        this.onmessage?.({ ...result, id: message.id });
+      })
+      .catch(fail);
+  }
+
   async close() {
     // Similar to start, the only thing to do is to pass the event on to the server
     this.onclose?.();
   }
 
+  // Opens the standalone SSE stream for a GET request. The worker serving the GET
+  // holds a websocket to the session, and any server-initiated messages sent to
+  // the session are written straight to the stream. If the client passes a
+  // Last-Event-ID, the session replays the events it missed on that stream first.
+  async getStandaloneSSEStream(
+    endpoint: URL,
+    lastEventId: string | null,
+    corsOptions?: CORSOptions,
+    heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS
+  ): Promise<Response> {
+    const self = this;
+
+    const headers: Record<string, string> = {
+      Upgrade: "websocket",
+      "x-partykit-room": this.sessionId,
+    };
+    if (lastEventId) {
+      headers["last-event-id"] = lastEventId;
+    }
+
+    // get a websocket connection to the session
+    const response = await this.session.fetch(
+      new Request(endpoint, { headers })
+    );
+
+    // The session only allows one long-lived GET request
+    if (response.status === 409) {
+      await this.writer.close();
+      const body = JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Conflict: Only one SSE stream is allowed per session",
+        },
+        id: null,
+      });
+      return new Response(body, { status: 409 });
+    }
+
+    const ws = response.webSocket;
+    if (!ws) {
+      console.error("Failed to establish WebSocket connection");
+      await this.writer.close();
+      return new Response("Failed to establish WebSocket connection", {
+        status: 500,
+      });
+    }
+    ws.accept();
+    startHeartbeat(this.writer, this.encoder, heartbeatIntervalMs);
+
+    // If the client goes away, release the websocket so the session
+    // will accept a new GET request
+    this.writer.closed
+      .catch(() => {})
+      .finally(() => {
+        try {
+          ws.close();
+        } catch (e) {
+          // Ignore errors when closing
+        }
+      });
+
+    // Handle WebSocket errors
+    ws.addEventListener("error", (error) => {
+      async function onError(error: Event) {
+        try {
+          await self.writer.close();
+        } catch (e) {
+          // Ignore errors when closing
+        }
+      }
+      onError(error).catch(console.error);
+    });
+
+    // Handle WebSocket closure
+    ws.addEventListener("close", () => {
+      async function onClose() {
+        try {
+          await self.writer.close();
+        } catch (error) {
+          // Ignore errors when closing
+        }
+      }
+      onClose().catch(console.error);
+    });
+
+    // Handle messages from the Session Durable Object
+    ws.addEventListener("message", (event) => {
+      async function onMessage(event: MessageEvent) {
+        try {
+          // Convert ArrayBuffer to string if needed
+          const data =
+            event.data instanceof ArrayBuffer
+              ? new TextDecoder().decode(event.data)
+              : event.data;
+
+          const sessionEvent = JSON.parse(data);
+
+          // validate that the message is an event from the session
+          if (!isSessionEvent(sessionEvent)) {
+            // PartyKit will broadcast state change messages to all connected clients
+            // and we need to filter those out so they are not passed to MCP clients
+            return;
+          }
+
+          // These messages were already produced by an McpServer and stored
+          // by the session, so they go straight to the client
+          await self.writeMessageToStream(
+            sessionEvent.message,
+            sessionEvent.eventId
+          );
+        } catch (error) {
+          console.error("Error forwarding message to SSE:", error);
+        }
+      }
+      onMessage(event).catch(console.error);
+    });
+
+    return new Response(this.readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "mcp-session-id": this.sessionId,
+        "Access-Control-Allow-Origin": corsOptions?.origin || "*",
+      },
+      status: 200,
+    });
+  }
+
   // This abstracts away the details of the SSE response from the worker.
-  // We will return an SSE Stream, but we could optionally wait until all
-  // of the messages have been sent and then return a single JSON response
+  // We return an SSE Stream, or if `enableJsonResponse` is set, we wait until
+  // all of the requests have been responded to and return a single JSON response
   async processMessages(
     messages: JSONRPCMessage[],
+    isBatch: boolean,
     corsOptions?: CORSOptions
   ): Promise<Response> {
     // If there are no requests, we send the messages to the agent and acknowledge the request with a 202
     // since we don't expect any responses back through this connection
     const hasOnlyNotificationsOrResponses = messages.every(
-      (msg) => isJSONRPCNotification(msg) || isJSONRPCResponse(msg)
+      (msg) =>
+        isJSONRPCNotification(msg) ||
+        isJSONRPCResponse(msg) ||
+        isJSONRPCError(msg)
     );
 
+    // Set up the JSON response before passing on any messages, since the
+    // server may respond before we finish
+    const jsonResponseReady = this.enableJsonResponse
+      ? new Promise<void>((resolve) => {
+          this.#resolveJsonResponse = resolve;
+        })
+      : null;
+
     for (const message of messages) {
+      // Responses and errors answer a request the server sent to the client.
+      // The worker that sent it is waiting on the session, so route them there
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        const delivered = await this.session.onClientResponse(message);
+        if (!delivered) {
+          console.error(`No pending request for response ${message.id}`);
+        }
+        continue;
+      }
+
       // Track the ids of all incoming requests so we can shut down the connection
       // once we've processed them all
-      // We can ignore notifications, responses, and errors
+      // We can ignore notifications
       if (isJSONRPCRequest(message)) {
         this.#requestIds.add(message.id);
+        if (InitializeRequestSchema.safeParse(message).success) {
+          this.#initializeRequestId = message.id;
+        }
       }
       this.onmessage?.(message);
     }
@@ -356,6 +1170,21 @@ class McpStreamableSessionTransport implements Transport {
       return new Response(null, { status: 202 });
     }
 
+    if (jsonResponseReady) {
+      await jsonResponseReady;
+
+      // Respond in kind: a batch gets an array, a single request gets an object
+      const body = isBatch ? this.#jsonResponses : this.#jsonResponses[0];
+      return new Response(JSON.stringify(body), {
+        headers: {
+          "Content-Type": "application/json",
+          "mcp-session-id": this.sessionId,
+          "Access-Control-Allow-Origin": corsOptions?.origin || "*",
+        },
+        status: 200,
+      });
+    }
+
     // Otherwise, we need to return the SSE stream which we'll close
     // once all the requests have been processed and responded to
     return new Response(this.readable, {
@@ -372,15 +1201,53 @@ class McpStreamableSessionTransport implements Transport {
 }
 
 export class Mcp {
-  static serve<Env>(
+  // Sends `notifications/resources/updated` to every session subscribed to
+  // the resource, over its live stream. Call it from any worker or Durable
+  // Object with the McpSession binding, e.g. after the resource is written.
+  static async notifyResourceUpdated(
+    namespace: DurableObjectNamespace<McpSession>,
+    uri: string
+  ) {
+    const subscriptions = namespace.get(
+      namespace.idFromName(RESOURCE_SUBSCRIPTIONS_NAME)
+    );
+    const subscribers = await subscriptions.getSubscribers(uri);
+    await Promise.all(
+      subscribers.map(async (sessionName) => {
+        const session = namespace.get(namespace.idFromName(sessionName));
+        const delivered = await session.onResourceUpdated(uri);
+        // Sessions that were terminated or lost their stream are dropped
+        if (!delivered) {
+          await subscriptions.removeSubscriber(uri, sessionName);
+        }
+      })
+    );
+  }
+
+  static serve<Env, Props = unknown, SessionState = unknown>(
     path: string,
     getMcpServer: (
-      session: DurableObjectStub<McpSession>
+      context: McpServerContext<Env, Props, SessionState>
     ) => MaybePromise<McpServer>,
     {
       binding = "MCP_OBJECT",
       corsOptions,
-    }: { binding?: string; corsOptions?: CORSOptions } = {}
+      enableJsonResponse = false,
+      maxMessageSize = MAXIMUM_MESSAGE_SIZE_BYTES,
+      heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS,
+      idleTimeoutMs = IDLE_TIMEOUT_MS,
+    }: {
+      binding?: string;
+      corsOptions?: CORSOptions;
+      // Return a single JSON response instead of an SSE stream for POST requests
+      enableJsonResponse?: boolean;
+      // The largest request body accepted, in bytes
+      maxMessageSize?: number;
+      // How often a `: ping` comment is written to the GET stream, 0 to disable
+      heartbeatIntervalMs?: number;
+      // How long a session can go without a request before it is terminated
+      idleTimeoutMs?: number;
+    } = {}
   ) {
     let pathname = path;
     if (path === "/") {
@@ -390,12 +1257,18 @@ export class Mcp {
 
     return {
       async fetch(request: Request, env: Env, ctx: ExecutionContext) {
-        // Handle CORS preflight
+        // Reject disallowed origins and handle CORS preflight
         const corsResponse = handleCORS(request, corsOptions);
         if (corsResponse) {
           return corsResponse;
         }
 
+        // Responses allow the same origin as the preflight
+        const responseCorsOptions: CORSOptions = {
+          ...corsOptions,
+          origin: getAllowedOrigin(request, corsOptions) ?? undefined,
+        };
+
         const url = new URL(request.url);
         const bindingValue = env[binding as keyof typeof env] as unknown;
 
@@ -447,17 +1320,22 @@ export class Mcp {
             return new Response(body, { status: 415 });
           }
 
-          // Check content length against maximum allowed size
+          // Check content length against maximum allowed size. The body is
+          // checked again as it is read, since the header may be missing
           const contentLength = Number.parseInt(
             request.headers.get("content-length") ?? "0",
             10
           );
-          if (contentLength > MAXIMUM_MESSAGE_SIZE_BYTES) {
+          const requestBody =
+            contentLength > maxMessageSize
+              ? null
+              : await readRequestBody(request, maxMessageSize);
+          if (requestBody === null) {
             const body = JSON.stringify({
               jsonrpc: "2.0",
               error: {
                 code: -32000,
-                message: `Request body too large. Maximum size is ${MAXIMUM_MESSAGE_SIZE_BYTES} bytes`,
+                message: `Request body too large. Maximum size is ${maxMessageSize} bytes`,
               },
               id: null,
             });
@@ -468,7 +1346,7 @@ export class Mcp {
           let rawMessage: unknown;
 
           try {
-            rawMessage = await request.json();
+            rawMessage = JSON.parse(requestBody);
           } catch (error) {
             const body = JSON.stringify({
               jsonrpc: "2.0",
@@ -567,7 +1445,7 @@ export class Mcp {
           const isInitialized = await doStub.isInitialized();
 
           if (isInitializationRequest) {
-            await doStub.setInitialized(sessionId);
+            await doStub.setInitialized(sessionId, ctx.props);
           } else if (!isInitialized) {
             // if we have gotten here, then a session id that was never initialized
             // was provided
@@ -582,15 +1460,41 @@ export class Mcp {
             return new Response(body, { status: 404 });
           }
 
+          // Requests after initialization must use the negotiated protocol version
+          if (!isInitializationRequest) {
+            const error = validateProtocolVersion(
+              request.headers.get("mcp-protocol-version"),
+              await doStub.getProtocolVersion()
+            );
+            if (error) {
+              return protocolVersionErrorResponse(error);
+            }
+          }
+
           // We've evaluated all the error conditions!
+          await doStub.touch(idleTimeoutMs);
 
           // We need an McpServer
-          const mcpServer = await getMcpServer(doStub);
+          const mcpServer = await getMcpServer({
+            session: doStub,
+            sessionId,
+            props: ctx.props as Props,
+            headers: request.headers,
+            env,
+          });
+
+          handleResourceSubscriptions(
+            mcpServer,
+            namespace,
+            "streamable-http",
+            sessionId
+          );
 
           // Establish a transport for the session
           const transport = new McpStreamableSessionTransport(
             sessionId,
-            doStub
+            doStub,
+            enableJsonResponse
           );
 
           // Connect the transport to the server
@@ -598,10 +1502,135 @@ export class Mcp {
 
           // Pass all of the messages to the transport
           // and let it handle the response
-          return await transport.processMessages(messages, corsOptions);
+          return await transport.processMessages(
+            messages,
+            Array.isArray(rawMessage),
+            responseCorsOptions
+          );
+        }
+
+        // Open the standalone SSE stream so the server can send messages
+        // that are not related to a request
+        if (request.method === "GET" && basePattern.test(url)) {
+          // The client MUST include an Accept header, listing text/event-stream as a supported content type.
+          const acceptHeader = request.headers.get("accept");
+          if (!acceptHeader?.includes("text/event-stream")) {
+            const body = JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32000,
+                message: "Not Acceptable: Client must accept text/event-stream",
+              },
+              id: null,
+            });
+            return new Response(body, { status: 406 });
+          }
+
+          const sessionId = request.headers.get("mcp-session-id");
+          if (!sessionId) {
+            const body = JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32000,
+                message: "Bad Request: Mcp-Session-Id header is required",
+              },
+              id: null,
+            });
+            return new Response(body, { status: 400 });
+          }
+
+          // fetch the agent DO
+          const id = namespace.idFromName(`streamable-http:${sessionId}`);
+          const doStub = namespace.get(id);
+          const isInitialized = await doStub.isInitialized();
+
+          if (!isInitialized) {
+            const body = JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32001,
+                message: "Session not found",
+              },
+              id: null,
+            });
+            return new Response(body, { status: 404 });
+          }
+
+          const error = validateProtocolVersion(
+            request.headers.get("mcp-protocol-version"),
+            await doStub.getProtocolVersion()
+          );
+          if (error) {
+            return protocolVersionErrorResponse(error);
+          }
+
+          await doStub.touch(idleTimeoutMs);
+
+          // The messages on this stream have already been processed by an
+          // McpServer in another worker, so we only need the transport
+          const transport = new McpStreamableSessionTransport(
+            sessionId,
+            doStub
+          );
+
+          return await transport.getStandaloneSSEStream(
+            url,
+            request.headers.get("last-event-id"),
+            responseCorsOptions,
+            heartbeatIntervalMs
+          );
+        }
+
+        // Clients terminate the session with a DELETE request
+        if (request.method === "DELETE" && basePattern.test(url)) {
+          const sessionId = request.headers.get("mcp-session-id");
+          if (!sessionId) {
+            const body = JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32000,
+                message: "Bad Request: Mcp-Session-Id header is required",
+              },
+              id: null,
+            });
+            return new Response(body, { status: 400 });
+          }
+
+          // fetch the agent DO
+          const id = namespace.idFromName(`streamable-http:${sessionId}`);
+          const doStub = namespace.get(id);
+          const isInitialized = await doStub.isInitialized();
+
+          if (!isInitialized) {
+            const body = JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32001,
+                message: "Session not found",
+              },
+              id: null,
+            });
+            return new Response(body, { status: 404 });
+          }
+
+          const error = validateProtocolVersion(
+            request.headers.get("mcp-protocol-version"),
+            await doStub.getProtocolVersion()
+          );
+          if (error) {
+            return protocolVersionErrorResponse(error);
+          }
+
+          await doStub.terminate();
+
+          return new Response(null, {
+            status: 200,
+            headers: {
+              "Access-Control-Allow-Origin": responseCorsOptions.origin || "*",
+            },
+          });
         }
 
-        // We don't yet support GET or DELETE requests
         const body = JSON.stringify({
           jsonrpc: "2.0",
           error: {
@@ -615,17 +1644,26 @@ export class Mcp {
     };
   }
 
-  static serveSSE<Env>(
+  static serveSSE<Env, Props = unknown, SessionState = unknown>(
     path: string,
     getMcpServer: (
-      session: DurableObjectStub<McpSession>
+      context: McpServerContext<Env, Props, SessionState>
     ) => MaybePromise<McpServer>,
     {
       binding = "MCP_OBJECT",
       corsOptions,
+      maxMessageSize = MAXIMUM_MESSAGE_SIZE_BYTES,
+      heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS,
+      idleTimeoutMs = IDLE_TIMEOUT_MS,
     }: {
       binding?: string;
       corsOptions?: CORSOptions;
+      // The largest request body accepted, in bytes
+      maxMessageSize?: number;
+      // How often a `: ping` comment is written to the SSE stream, 0 to disable
+      heartbeatIntervalMs?: number;
+      // How long a session can go without a request before it is terminated
+      idleTimeoutMs?: number;
     } = {}
   ) {
     let pathname = path;
@@ -641,10 +1679,16 @@ export class Mcp {
         env: Env,
         ctx: ExecutionContext
       ): Promise<Response> {
-        // Handle CORS preflight
+        // Reject disallowed origins and handle CORS preflight
         const corsResponse = handleCORS(request, corsOptions);
         if (corsResponse) return corsResponse;
 
+        // Responses allow the same origin as the preflight
+        const responseCorsOptions: CORSOptions = {
+          ...corsOptions,
+          origin: getAllowedOrigin(request, corsOptions) ?? undefined,
+        };
+
         const url = new URL(request.url);
         const bindingValue = env[binding as keyof typeof env] as unknown;
 
@@ -674,9 +1718,19 @@ export class Mcp {
           // Get the session DO
           const id = namespace.idFromName(`sse:${sessionId}`);
           const doStub = namespace.get(id);
+          await doStub.setInitialized(sessionId, ctx.props);
+          await doStub.touch(idleTimeoutMs);
 
           // We need an McpServer
-          const mcpServer = await getMcpServer(doStub);
+          const mcpServer = await getMcpServer({
+            session: doStub,
+            sessionId,
+            props: ctx.props as Props,
+            headers: request.headers,
+            env,
+          });
+
+          handleResourceSubscriptions(mcpServer, namespace, "sse", sessionId);
 
           // Establish a transport for the session
           const transport = new McpSSESessionTransport(sessionId, doStub);
@@ -697,7 +1751,11 @@ export class Mcp {
               endpointUrl.hash
           );
 
-          return transport.getSSEStream(relativeUrlWithSession, corsOptions);
+          return transport.getSSEStream(
+            relativeUrlWithSession,
+            responseCorsOptions,
+            heartbeatIntervalMs
+          );
         }
 
         // Handle incoming MCP messages. These will be passed to McpAgent
@@ -719,16 +1777,21 @@ export class Mcp {
             });
           }
 
-          // check if the request body is too large
+          // check if the request body is too large, both from the header
+          // and while reading it
           const contentLength = Number.parseInt(
             request.headers.get("content-length") || "0",
             10
           );
-          if (contentLength > MAXIMUM_MESSAGE_SIZE_BYTES) {
+          const requestBody =
+            contentLength > maxMessageSize
+              ? null
+              : await readRequestBody(request, maxMessageSize);
+          if (requestBody === null) {
             return new Response(
-              `Request body too large: ${contentLength} bytes`,
+              `Request body too large. Maximum size is ${maxMessageSize} bytes`,
               {
-                status: 400,
+                status: 413,
               }
             );
           }
@@ -741,7 +1804,12 @@ export class Mcp {
           const transport = new McpSSESessionTransport(sessionId, doStub);
 
           // Make sure we have a valid JSON-RPC message
-          const message = await request.json();
+          let message: unknown;
+          try {
+            message = JSON.parse(requestBody);
+          } catch (error) {
+            return new Response("Invalid JSON", { status: 400 });
+          }
           const parsed = JSONRPCMessageSchema.safeParse(message);
           if (!parsed.success) {
             return new Response("Invalid JSON-RPC message", {
@@ -750,13 +1818,16 @@ export class Mcp {
                 "Content-Type": "text/event-stream",
                 "Cache-Control": "no-cache",
                 Connection: "keep-alive",
-                "Access-Control-Allow-Origin": corsOptions?.origin || "*",
+                "Access-Control-Allow-Origin":
+                  responseCorsOptions.origin || "*",
               },
             });
           }
 
+          await doStub.touch(idleTimeoutMs);
+
           // Forward the request to the transport
-          return await transport.onMcpMessage(parsed.data, corsOptions);
+          return await transport.onMcpMessage(parsed.data, responseCorsOptions);
         }
 
         return new Response("Not Found", { status: 404 });
@@ -0,0 +1,533 @@
+import {
+  SELF,
+  env,
+  createExecutionContext,
+  runInDurableObject,
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ListRootsResultSchema,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Mcp, McpSession } from "../src/mcp";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv {
+    MCP_OBJECT: DurableObjectNamespace<McpSession>;
+  }
+}
+
+const RESOURCE_URI = "https://example.com/greetings/default";
+
+type SSEEvent = { event: string; data: string; id: string };
+
+// Reads events from an SSE response one at a time, like a client would
+function readEvents(response: Response) {
+  // Reads the body directly, so that closing the reader cancels the stream
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  async function nextEvent(): Promise<SSEEvent> {
+    while (!buffer.includes("\n\n")) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error("SSE stream closed");
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+
+    const end = buffer.indexOf("\n\n");
+    const lines = buffer.slice(0, end).split("\n");
+    buffer = buffer.slice(end + 2);
+
+    // Skip heartbeat comments
+    if (lines.every((line) => line.startsWith(":"))) {
+      return nextEvent();
+    }
+
+    const field = (name: string) =>
+      lines
+        .find((line) => line.startsWith(`${name}: `))
+        ?.slice(name.length + 2) ?? "";
+    return {
+      event: field("event") || "message",
+      data: field("data"),
+      id: field("id"),
+    };
+  }
+
+  return { nextEvent, close: () => reader.cancel() };
+}
+
+async function nextMessage(nextEvent: () => Promise<SSEEvent>) {
+  const { event, data } = await nextEvent();
+  expect(event).toBe("message");
+  return JSON.parse(data) as JSONRPCMessage;
+}
+
+function post(endpoint: string, message: JSONRPCMessage) {
+  return SELF.fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  });
+}
+
+type McpHandler = ReturnType<typeof Mcp.serve>;
+
+type PostOptions = {
+  sessionId?: string;
+  // A handler built for the test, instead of the example worker's
+  handler?: McpHandler;
+  ctx?: ExecutionContext;
+  headers?: Record<string, string>;
+};
+
+// Sends messages to the Streamable HTTP endpoint, on the session if there is one
+function postMcp(
+  message: JSONRPCMessage | JSONRPCMessage[],
+  { sessionId, handler, ctx, headers }: PostOptions = {}
+) {
+  const request = new Request("http://example.com/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+      ...headers,
+    },
+    body: JSON.stringify(message),
+  });
+  return handler
+    ? handler.fetch(request, env, ctx ?? createExecutionContext())
+    : SELF.fetch(request);
+}
+
+const initializeRequest: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2024-11-05",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+// Starts a Streamable HTTP session and returns its id
+async function initializeSession(options: PostOptions = {}) {
+  const response = await postMcp(initializeRequest, options);
+  expect(response.status).toBe(200);
+  const sessionId = response.headers.get("mcp-session-id")!;
+  await response.text();
+
+  const initialized = await postMcp(
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { ...options, sessionId }
+  );
+  expect(initialized.status).toBe(202);
+  return sessionId;
+}
+
+// Opens the standalone GET stream. The session only allows one, so this
+// retries while a stream that was just closed is still being released.
+async function openStream(sessionId: string, lastEventId?: string) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await SELF.fetch("http://example.com/mcp", {
+      headers: {
+        Accept: "text/event-stream",
+        "Mcp-Session-Id": sessionId,
+        ...(lastEventId ? { "Last-Event-ID": lastEventId } : {}),
+      },
+    });
+    if (response.status !== 409 || attempt === 20) {
+      return response;
+    }
+    await response.text();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe("SSE resource subscriptions", () => {
+  it("sends resource updates on the event stream", async () => {
+    const response = await SELF.fetch("http://example.com/sse");
+    expect(response.status).toBe(200);
+    const { nextEvent, close } = readEvents(response);
+
+    const { event, data } = await nextEvent();
+    expect(event).toBe("endpoint");
+    const endpoint = new URL(data, "http://example.com").href;
+
+    let res = await post(endpoint, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2024-11-05",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    });
+    expect(res.status).toBe(202);
+    expect(await nextMessage(nextEvent)).toMatchObject({
+      id: 1,
+      result: { capabilities: { resources: { subscribe: true } } },
+    });
+
+    res = await post(endpoint, {
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+    expect(res.status).toBe(202);
+
+    res = await post(endpoint, {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "resources/subscribe",
+      params: { uri: RESOURCE_URI },
+    });
+    expect(res.status).toBe(202);
+    expect(await nextMessage(nextEvent)).toMatchObject({ id: 2, result: {} });
+
+    await Mcp.notifyResourceUpdated(env.MCP_OBJECT, RESOURCE_URI);
+
+    expect(await nextMessage(nextEvent)).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: RESOURCE_URI },
+    });
+
+    await close();
+  });
+});
+
+describe("resource subscriptions capability", () => {
+  it("isn't advertised by a server without resources", async () => {
+    const mcp = Mcp.serve("/mcp", () => {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" });
+      server.tool("noop", async () => ({ content: [] }));
+      return server;
+    });
+
+    const response = await postMcp(initializeRequest, { handler: mcp });
+    expect(response.status).toBe(200);
+    const { nextEvent, close } = readEvents(response);
+    const initialized = (await nextMessage(nextEvent)) as any;
+    expect(initialized.result.capabilities.tools).toBeDefined();
+    expect(initialized.result.capabilities.resources).toBeUndefined();
+    await close();
+  });
+});
+
+describe("Streamable HTTP GET stream", () => {
+  it("opens one standalone stream per session", async () => {
+    const sessionId = await initializeSession();
+
+    const missingSession = await SELF.fetch("http://example.com/mcp", {
+      headers: { Accept: "text/event-stream" },
+    });
+    expect(missingSession.status).toBe(400);
+    await missingSession.text();
+
+    const response = await openStream(sessionId);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(response.headers.get("mcp-session-id")).toBe(sessionId);
+    const { close } = readEvents(response);
+
+    const second = await SELF.fetch("http://example.com/mcp", {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+    });
+    expect(second.status).toBe(409);
+    expect(await second.json()).toMatchObject({
+      error: {
+        message: "Conflict: Only one SSE stream is allowed per session",
+      },
+    });
+
+    await close();
+  });
+});
+
+describe("server-to-client requests", () => {
+  it("passes the client's answer, sent on a later POST, back to the tool", async () => {
+    // Lists the client's roots, so the tool call waits for the client
+    const mcp = Mcp.serve("/mcp", () => {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" });
+      server.tool("list-roots", async (extra) => {
+        const { roots } = await extra.sendRequest(
+          { method: "roots/list" },
+          ListRootsResultSchema
+        );
+        return {
+          content: roots.map(({ uri }) => ({ type: "text", text: uri })),
+        };
+      });
+      return server;
+    });
+    const sessionId = await initializeSession({ handler: mcp });
+
+    const response = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "list-roots", arguments: {} },
+      },
+      { sessionId, handler: mcp }
+    );
+    expect(response.status).toBe(200);
+    const { nextEvent, close } = readEvents(response);
+
+    // The request is sent on the tool call's stream, with an id for the session
+    const request = (await nextMessage(nextEvent)) as any;
+    expect(request.method).toBe("roots/list");
+
+    const answer = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: { roots: [{ uri: "file:///projects" }] },
+      },
+      { sessionId, handler: mcp }
+    );
+    expect(answer.status).toBe(202);
+
+    expect(await nextMessage(nextEvent)).toMatchObject({
+      id: 2,
+      result: { content: [{ type: "text", text: "file:///projects" }] },
+    });
+    await close();
+  });
+});
+
+describe("JSON response mode", () => {
+  const mcp = Mcp.serve(
+    "/mcp",
+    () => {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" });
+      server.tool("noop", async () => ({ content: [] }));
+      return server;
+    },
+    { enableJsonResponse: true }
+  );
+
+  it("answers a request with a single JSON object", async () => {
+    const sessionId = await initializeSession({ handler: mcp });
+
+    const response = await postMcp(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { sessionId, handler: mcp }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toMatchObject({
+      jsonrpc: "2.0",
+      id: 2,
+      result: { tools: [{ name: "noop" }] },
+    });
+  });
+
+  it("answers a batch with an array", async () => {
+    const sessionId = await initializeSession({ handler: mcp });
+
+    const response = await postMcp(
+      [
+        { jsonrpc: "2.0", id: 2, method: "tools/list" },
+        { jsonrpc: "2.0", id: 3, method: "ping" },
+      ],
+      { sessionId, handler: mcp }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    const messages = await response.json<any[]>();
+    expect(messages.map(({ id }) => id).sort()).toEqual([2, 3]);
+  });
+});
+
+describe("message size limit", () => {
+  it("rejects a chunked body larger than the limit", async () => {
+    const mcp = Mcp.serve(
+      "/mcp",
+      () => new McpServer({ name: "test-server", version: "1.0.0" }),
+      { maxMessageSize: 64 }
+    );
+    const message = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "ping",
+      params: { padding: "x".repeat(100) },
+    });
+
+    // A stream body is sent without a Content-Length header
+    const request = new Request("http://example.com/mcp", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: new Blob([message]).stream(),
+    });
+    expect(request.headers.get("content-length")).toBeNull();
+
+    const response = await mcp.fetch(request, env, createExecutionContext());
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      error: { message: "Request body too large. Maximum size is 64 bytes" },
+    });
+  });
+});
+
+describe("idle timeout", () => {
+  it("terminates a session that has had no requests for the timeout", async () => {
+    const mcp = Mcp.serve(
+      "/mcp",
+      () => new McpServer({ name: "test-server", version: "1.0.0" }),
+      { idleTimeoutMs: 60_000 }
+    );
+    const sessionId = await initializeSession({ handler: mcp });
+    const session = env.MCP_OBJECT.get(
+      env.MCP_OBJECT.idFromName(`streamable-http:${sessionId}`)
+    );
+
+    // Runs the idle check the session's alarm would, as if the last request
+    // was made a minute ago
+    await runInDurableObject(session, async (instance: McpSession, state) => {
+      expect(instance.getSchedules().map(({ callback }) => callback)).toContain(
+        "closeIfIdle"
+      );
+      await state.storage.put("lastActivityAt", Date.now() - 60_000);
+      await instance.closeIfIdle();
+    });
+
+    const response = await postMcp(
+      { jsonrpc: "2.0", id: 2, method: "ping" },
+      { sessionId, handler: mcp }
+    );
+    expect(response.status).toBe(404);
+    await response.text();
+  });
+});
+
+describe("server context", () => {
+  it("passes the props, headers and session id to getMcpServer", async () => {
+    type Props = { login: string };
+    const mcp = Mcp.serve<unknown, Props>("/mcp", (context) => {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" });
+      server.tool("whoami", async () => ({
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              login: context.props.login,
+              client: context.headers.get("x-client"),
+              sessionId: context.sessionId,
+            }),
+          },
+        ],
+      }));
+      return server;
+    });
+
+    // The OAuth provider passes the props of the access token on ctx
+    const ctx = Object.assign(createExecutionContext(), {
+      props: { login: "alice" },
+    });
+    const sessionId = await initializeSession({ handler: mcp, ctx });
+
+    const response = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "whoami", arguments: {} },
+      },
+      { sessionId, handler: mcp, ctx, headers: { "X-Client": "test-client" } }
+    );
+    const { nextEvent, close } = readEvents(response);
+    const result = (await nextMessage(nextEvent)) as any;
+    expect(JSON.parse(result.result.content[0].text)).toEqual({
+      login: "alice",
+      client: "test-client",
+      sessionId,
+    });
+    await close();
+  });
+});
+
+describe("session state", () => {
+  // Calls a tool of the example worker and returns the text it answers with
+  async function callTool(sessionId: string, name: string, args = {}) {
+    const response = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name, arguments: args },
+      },
+      { sessionId }
+    );
+    const { nextEvent, close } = readEvents(response);
+    const result = (await nextMessage(nextEvent)) as any;
+    await close();
+    return result.result.content[0].text;
+  }
+
+  it("keeps state across requests on the same session only", async () => {
+    const sessionId = await initializeSession();
+    await callTool(sessionId, "greet", { name: "Alice" });
+    await callTool(sessionId, "greet", { name: "Bob" });
+    expect(await callTool(sessionId, "list-greeted")).toBe("Alice, Bob");
+
+    const otherSessionId = await initializeSession();
+    expect(await callTool(otherSessionId, "list-greeted")).toBe(
+      "Nobody has been greeted yet"
+    );
+  });
+});
+
+describe("Streamable HTTP resumption", () => {
+  it("replays the events a GET stream missed when it resumes with Last-Event-ID", async () => {
+    const sessionId = await initializeSession();
+
+    const subscribed = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/subscribe",
+        params: { uri: RESOURCE_URI },
+      },
+      { sessionId }
+    );
+    expect(subscribed.status).toBe(200);
+    await subscribed.text();
+
+    let response = await openStream(sessionId);
+    expect(response.status).toBe(200);
+    let stream = readEvents(response);
+    await Mcp.notifyResourceUpdated(env.MCP_OBJECT, RESOURCE_URI);
+    const first = await stream.nextEvent();
+    expect(JSON.parse(first.data)).toMatchObject({
+      method: "notifications/resources/updated",
+    });
+    expect(first.id).not.toBe("");
+    await stream.close();
+
+    // Sent while the client is disconnected, so it is only stored
+    await Mcp.notifyResourceUpdated(env.MCP_OBJECT, RESOURCE_URI);
+
+    response = await openStream(sessionId, first.id);
+    expect(response.status).toBe(200);
+    stream = readEvents(response);
+    const missed = await stream.nextEvent();
+    expect(Number(missed.id)).toBeGreaterThan(Number(first.id));
+    expect(JSON.parse(missed.data)).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: RESOURCE_URI },
+    });
+    await stream.close();
+  });
+});
@@ -1,10 +1,12 @@
-import OAuthProvider, { AuthRequest, OAuthHelpers } from './oauth/oauth-provider'
+import OAuthProvider from './oauth/oauth-provider'
 import { MCPEntrypoint } from './lib/MCPEntrypoint'
+import { progressReporter } from './lib/progress'
+import { callSlack } from './lib/slack'
+import { UpstreamOAuthHandler } from './lib/UpstreamOAuthHandler'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
-import { Hono } from 'hono'
 import pick from 'just-pick'
-import { WebClient } from '@slack/web-api'
+import { ConversationsHistoryResponse, ConversationsListResponse, WebClient } from '@slack/web-api'
 
 // Context from the auth process, encrypted & stored in the auth token
 // and provided to the MCP Server as this.props
@@ -61,26 +63,27 @@ export class SlackMCP extends MCPEntrypoint<Props> {
       }
     })
     
-    server.tool('getDailyUpdate', 'Get a daily summary of important Slack messages', {}, async () => {
-      const slack = new WebClient(this.props.accessToken)
+    server.tool('getDailyUpdate', 'Get a daily summary of important Slack messages', {}, async (_args, extra) => {
+      const reportProgress = progressReporter(extra)
       
-      // Get list of channels
-      const channelsResponse = await slack.conversations.list({
+      // Get list of channels. The requests are made with callSlack so they're cancelled along with the tool call
+      const channelsResponse = await callSlack<ConversationsListResponse>(this.props.accessToken, 'conversations.list', {
         exclude_archived: true,
         types: 'public_channel',
         limit: 10
-      })
+      }, extra.signal)
       
-      const channels = channelsResponse.channels || []
+      const channels = (channelsResponse.channels || []).slice(0, 5)
       let allMessages = []
+      await reportProgress(1, channels.length + 1)
       
-      // Get messages from each channel (limited to 5 for this demo)
-      for (const channel of channels.slice(0, 5)) {
+      // Get messages from each channel (limited to 5 for this demo), reporting progress after each one
+      for (const [index, channel] of channels.entries()) {
         if (channel.id) {
-          const messagesResponse = await slack.conversations.history({
+          const messagesResponse = await callSlack<ConversationsHistoryResponse>(this.props.accessToken, 'conversations.history', {
             channel: channel.id,
             limit: 10
-          })
+          }, extra.signal)
           
           if (messagesResponse.messages && messagesResponse.messages.length > 0) {
             allMessages.push({
@@ -90,6 +93,7 @@ export class SlackMCP extends MCPEntrypoint<Props> {
             })
           }
         }
+        await reportProgress(index + 2, channels.length + 1)
       }
       
       return {
@@ -140,112 +144,38 @@ export class SlackMCP extends MCPEntrypoint<Props> {
   }
 }
 
-const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>()
+type SlackUser = Omit<Props, 'accessToken' | 'scope'>
 
 /**
- * OAuth Authorization Endpoint
+ * OAuth endpoints
  *
- * This route initiates the Slack OAuth flow when a user wants to log in.
- * It creates a random state parameter to prevent CSRF attacks and stores the
- * original OAuth request information in KV storage for later retrieval.
- * Then it redirects the user to Slack's authorization page with the appropriate
- * parameters so the user can authenticate and grant permissions.
+ * /authorize sends the user to Slack to log in, and /callback exchanges the
+ * temporary code for an access token, then stores user metadata & the auth
+ * token as part of the 'props' on the token passed down to the client.
  */
-app.get('/authorize', async (c) => {
-  const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw)
-  // Store the request info in KV to catch it on the callback
-  const randomString = crypto.randomUUID()
-  await c.env.OAUTH_KV.put(`login:${randomString}`, JSON.stringify(oauthReqInfo), { expirationTtl: 600 })
-
-  const upstream = new URL(`https://slack.com/oauth/v2/authorize`)
-  upstream.searchParams.set('client_id', c.env.SLACK_CLIENT_ID)
-  upstream.searchParams.set('redirect_uri', `https://${c.req.headers.get('host')}/callback`)
+const app = new UpstreamOAuthHandler({
+  authorizeUrl: 'https://slack.com/oauth/v2/authorize',
+  tokenUrl: 'https://slack.com/api/oauth.v2.access',
   // Explicitly only request read permissions to demonstrate security constraints
-  upstream.searchParams.set('scope', 'channels:history,channels:read,users:read')
-  upstream.searchParams.set('state', randomString)
-  upstream.searchParams.set('user_scope', '')
-
-  return Response.redirect(upstream.href)
-})
-
-/**
- * OAuth Callback Endpoint
- *
- * This route handles the callback from Slack after user authentication.
- * It exchanges the temporary code for an access token, then stores user
- * metadata & the auth token as part of the 'props' on the token passed
- * down to the client. It ends by redirecting the client back to _its_ callback URL
- */
-app.get('/callback', async (c) => {
-  const code = c.req.query('code') as string
-
-  // Get the oauthReqInfo out of KV
-  const randomString = c.req.query('state')
-  if (!randomString) {
-    return c.text('Missing state', 400)
-  }
-  const oauthReqInfo = await c.env.OAUTH_KV.get<AuthRequest>(`login:${randomString}`, { type: 'json' })
-  if (!oauthReqInfo) {
-    return c.text('Invalid state', 400)
-  }
-
-  // Exchange the code for an access token
-  const resp = await fetch(`https://slack.com/api/oauth.v2.access`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      client_id: c.env.SLACK_CLIENT_ID,
-      client_secret: c.env.SLACK_CLIENT_SECRET,
-      code,
-      redirect_uri: `https://${c.req.headers.get('host')}/callback`,
-    }).toString(),
-  })
-
-  if (!resp.ok) {
-    console.log(await resp.text())
-    return c.text('Failed to fetch access token', 500)
-  }
-
-  const data = await resp.json()
-  if (!data.ok) {
-    console.log(data)
-    return c.text(`Slack API error: ${data.error || 'Unknown error'}`, 500)
-  }
-
-  const accessToken = data.access_token
-  if (!accessToken) {
-    return c.text('Missing access token', 400)
-  }
+  scope: 'channels:history,channels:read,users:read',
+  authorizeParams: { user_scope: '' },
+  clientId: (env) => env.SLACK_CLIENT_ID,
+  clientSecret: (env) => env.SLACK_CLIENT_SECRET,
 
   // Get user info from the Slack API response
-  const userId = data.authed_user?.id || 'unknown'
-  const userName = data.authed_user?.name || 'unknown'
-  const teamId = data.team?.id || 'unknown'
-  const teamName = data.team?.name || 'unknown'
-  const scope = data.scope || ''
-
-  // Return back to the MCP client a new token
-  const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
-    request: oauthReqInfo,
-    userId: userId,
-    metadata: {
-      label: userName,
-    },
-    scope: oauthReqInfo.scope,
-    // This will be available on this.props inside SlackMCP
-    props: {
-      userId,
-      userName,
-      teamId,
-      teamName,
-      accessToken,
-      scope
-    } as Props,
-  })
-
-  return Response.redirect(redirectTo)
+  fetchUser: async (data): Promise<SlackUser> => ({
+    userId: data.authed_user?.id || 'unknown',
+    userName: data.authed_user?.name || 'unknown',
+    teamId: data.team?.id || 'unknown',
+    teamName: data.team?.name || 'unknown',
+  }),
+  getGrant: ({ userId, userName }) => ({ userId, label: userName }),
+  // This will be available on this.props inside SlackMCP
+  getProps: (user, data): Props => ({
+    ...user,
+    accessToken: data.access_token,
+    scope: data.scope || '',
+  }),
 })
 
 // Simple index page to explain what this worker does
@@ -285,7 +215,8 @@ app.get('/', async (c) => {
 
 export default new OAuthProvider({
   apiRoute: '/sse',
-  apiHandler: SlackMCP.Router,
+  // Each user gets their own Durable Object for every SSE connection
+  apiHandler: SlackMCP.createRouter<Props>((props, sessionId) => `${props.teamId}:${props.userId}:${sessionId}`),
   defaultHandler: app,
   authorizeEndpoint: '/authorize',
   tokenEndpoint: '/token',
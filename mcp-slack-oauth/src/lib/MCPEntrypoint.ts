@@ -2,40 +2,199 @@ import { DurableObject } from 'cloudflare:workers'
 import { WorkerEntrypoint } from 'cloudflare:workers'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { SSEEdgeTransport } from './sseEdge'
-import { addCorsHeaders } from './utils'
+import { Logger } from './logger'
+import { addCorsHeaders, isOriginAllowed, OriginPolicy } from './utils'
+
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
+
+/**
+ * Saved when an SSE stream is opened. The stream itself only lives in memory, so this tells a POST for a session that
+ * was lost when the Durable Object was evicted apart from one for a session that never existed
+ */
+type SessionMetadata = {
+  sessionId: string
+  connectedAt: number
+  protocolVersion?: string
+}
+
+/**
+ * Derives the name of the Durable Object that serves a session from the props in the auth token and the session id.
+ * It must include something that identifies the user, so that different users never share a Durable Object, even if
+ * one of them learns the other's session id
+ */
+export type SessionKeyFunction<T> = (props: T, sessionId: string) => string
 
 export abstract class MCPEntrypoint<T extends Record<string, any> = Record<string, any>> extends DurableObject {
   abstract server: McpServer
   props!: T
 
-  static Router = class extends WorkerEntrypoint<{ MCP_OBJECT: DurableObjectNamespace<MCPEntrypoint> }> {
-    async fetch(request: Request) {
-      const object = this.env.MCP_OBJECT.get(this.env.MCP_OBJECT.idFromName(this.ctx.props.name))
-      object.init(this.ctx.props)
-      return object.fetch(request)
+  /**
+   * The browser origins allowed to connect, including the server's own. Defaults to none
+   */
+  allowedOrigins?: OriginPolicy
+
+  /**
+   * The largest message accepted, in bytes. Defaults to the transport's limit of 4MB
+   */
+  maxMessageSize?: number
+
+  /**
+   * How often the SSE stream is sent a `: ping` comment to keep it open, in milliseconds. Defaults to 30 seconds
+   */
+  heartbeatIntervalMs?: number
+
+  /**
+   * How long a session can go without receiving a message before it is closed, in milliseconds
+   */
+  idleTimeoutMs = IDLE_TIMEOUT_MS
+
+  /**
+   * Writes redacted JSON log lines for the session. Tools can log through it too, and their messages are sent to the
+   * client as well once it sets a level with `logging/setLevel`
+   */
+  logger: Logger
+
+  /**
+   * Creates the worker entrypoint that routes each request to the Durable Object for its session. A new SSE connection
+   * is given a session id here, and later POSTs name theirs in the sessionId query parameter
+   */
+  static createRouter<T extends Record<string, any>>(getSessionKey: SessionKeyFunction<T>) {
+    return class extends WorkerEntrypoint<{ MCP_OBJECT: DurableObjectNamespace<MCPEntrypoint> }> {
+      async fetch(request: Request) {
+        const url = new URL(request.url)
+        let sessionId = url.searchParams.get('sessionId')
+        if (!sessionId) {
+          if (url.pathname !== '/sse') {
+            return new Response('Missing sessionId', { status: 400 })
+          }
+          sessionId = crypto.randomUUID()
+          url.searchParams.set('sessionId', sessionId)
+          request = new Request(url, request)
+        }
+
+        const props = this.ctx.props as T
+        const object = this.env.MCP_OBJECT.get(this.env.MCP_OBJECT.idFromName(getSessionKey(props, sessionId)))
+        // Wait until the props are saved, so no tool can run before they are set
+        await object.init(props)
+        return object.fetch(request)
+      }
     }
   }
-  private transport!: SSEEdgeTransport
+  private transport?: SSEEdgeTransport
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env)
+    this.logger = new Logger(ctx.id.toString())
+
+    // Props are kept in storage, so the tools still have them after the Durable Object is evicted
+    ctx.blockConcurrencyWhile(async () => {
+      const props = await ctx.storage.get<T>('props')
+      if (props) {
+        this.props = props
+      }
+    })
+  }
 
-  init(props: T) {
-    console.log({ init: props })
+  async init(props: T) {
+    // Props hold upstream tokens, so only their keys are logged
+    this.logger.debug('Props saved', { keys: Object.keys(props) })
     this.props = props
+    await this.ctx.storage.put('props', props)
   }
 
   async fetch(request: Request) {
     const url = new URL(request.url)
 
+    // Reject disallowed origins before any message is processed
+    if (!isOriginAllowed(request, this.allowedOrigins)) {
+      return new Response('Forbidden: Origin not allowed', { status: 403 })
+    }
+
+    // Preflight requests are answered with the same policy
+    if (request.method === 'OPTIONS') {
+      return addCorsHeaders(new Response(null, { status: 204 }), request, this.allowedOrigins)
+    }
+
     if (url.pathname === '/sse') {
-      this.transport = new SSEEdgeTransport('/sse/message', this.ctx.id.toString())
-      await this.server.connect(this.transport)
-      return addCorsHeaders(this.transport.sseResponse, request)
+      // The Router picks the session id, since it is part of the name of this Durable Object
+      const sessionId = url.searchParams.get('sessionId') ?? this.ctx.id.toString()
+      this.logger = new Logger(sessionId)
+      const transport = new SSEEdgeTransport('/sse/message', sessionId, {
+        maxMessageSize: this.maxMessageSize,
+        heartbeatIntervalMs: this.heartbeatIntervalMs,
+        logger: this.logger,
+      })
+      this.transport = transport
+      const server = this.server
+      this.logger.attach(server)
+      await server.connect(transport)
+      await this.saveSession(transport, Date.now())
+      await this.scheduleIdleTimeout(transport)
+      return addCorsHeaders(transport.sseResponse, request, this.allowedOrigins)
     }
 
     if (url.pathname === '/sse/message') {
-      return this.transport.handlePostMessage(request)
+      const transport = this.transport
+      const sessionId = url.searchParams.get('sessionId')
+      // A closed stream can't carry the responses, so the client is told to reconnect
+      if (!transport || transport.isClosed || transport.sessionId !== sessionId) {
+        return addCorsHeaders(await this.sessionNotFound(sessionId), request, this.allowedOrigins)
+      }
+
+      const protocolVersion = transport.protocolVersion
+      const response = await transport.handlePostMessage(request)
+      if (transport.protocolVersion !== protocolVersion) {
+        const session = await this.ctx.storage.get<SessionMetadata>('session')
+        await this.saveSession(transport, session?.connectedAt ?? Date.now())
+      }
+      await this.scheduleIdleTimeout(transport)
+      return addCorsHeaders(response, request, this.allowedOrigins)
     }
     return new Response('Not Found', { status: 404 })
   }
+
+  /**
+   * Closes the session once it has been idle for idleTimeoutMs
+   */
+  async alarm() {
+    if (!this.transport || this.transport.isClosed) {
+      return
+    }
+
+    const idleUntil = this.transport.lastActivityAt + this.idleTimeoutMs
+    if (Date.now() < idleUntil) {
+      await this.ctx.storage.setAlarm(idleUntil)
+      return
+    }
+
+    // Closing the transport calls onclose, which disconnects the server. Later POSTs are told to reconnect
+    await this.transport.close()
+    this.transport = undefined
+  }
+
+  private async scheduleIdleTimeout(transport: SSEEdgeTransport) {
+    await this.ctx.storage.setAlarm(transport.lastActivityAt + this.idleTimeoutMs)
+  }
+
+  private async saveSession(transport: SSEEdgeTransport, connectedAt: number) {
+    await this.ctx.storage.put('session', {
+      sessionId: transport.sessionId,
+      connectedAt,
+      protocolVersion: transport.protocolVersion,
+    } satisfies SessionMetadata)
+  }
+
+  /**
+   * Answers a POST that has no SSE stream to go with it. If the session existed, its stream was closed or lost when the
+   * Durable Object was evicted, and the client has to reconnect to /sse
+   */
+  private async sessionNotFound(sessionId: string | null) {
+    const session = await this.ctx.storage.get<SessionMetadata>('session')
+    if (session && session.sessionId === sessionId) {
+      return new Response('Session expired. Reconnect to /sse to start a new session', { status: 410 })
+    }
+    return new Response('Session not found', { status: 404 })
+  }
 }
 
 // Alternative API sketch (couldn't make it work, server transport already closed?)
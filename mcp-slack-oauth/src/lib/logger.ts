@@ -0,0 +1,131 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  JSONRPCErrorSchema,
+  JSONRPCMessage,
+  JSONRPCRequestSchema,
+  JSONRPCResponseSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  RequestId,
+  SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+
+// From least to most severe, so a level's index can be compared with the level the client asked for
+const LOG_LEVELS = LoggingLevelSchema.options
+
+// Values under keys that match this are never written to the logs or sent to the client
+const SENSITIVE_KEY = /token|secret|password|authorization|cookie|api[-_]?key/i
+
+/**
+ * Returns a copy of `value` with the values of sensitive keys replaced
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, SENSITIVE_KEY.test(key) ? '[REDACTED]' : redact(entry)]))
+  }
+  return value
+}
+
+/**
+ * Writes JSON log lines for a session, and sends them to the client as `notifications/message` once it has asked for
+ * them with `logging/setLevel`. Message payloads are never logged, only their method, id and how long requests took.
+ */
+export class Logger {
+  // The least severe level the client wants to be sent. Nothing is sent until the client sets it
+  clientLevel?: LoggingLevel
+
+  private server?: McpServer
+  private pendingRequests = new Map<RequestId, { method: string; startedAt: number }>()
+
+  constructor(readonly sessionId: string) {}
+
+  /**
+   * Lets the client set a level with `logging/setLevel`. Must be called before the server is connected.
+   */
+  attach(server: McpServer, onSetLevel?: (level: LoggingLevel) => void) {
+    server.server.registerCapabilities({ logging: {} })
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.clientLevel = request.params.level
+      onSetLevel?.(request.params.level)
+      return {}
+    })
+    this.server = server
+  }
+
+  debug(message: string, data?: Record<string, unknown>) {
+    this.log('debug', message, data)
+  }
+
+  info(message: string, data?: Record<string, unknown>) {
+    this.log('info', message, data)
+  }
+
+  warning(message: string, data?: Record<string, unknown>) {
+    this.log('warning', message, data)
+  }
+
+  error(message: string, data?: Record<string, unknown>) {
+    this.log('error', message, data)
+  }
+
+  log(level: LoggingLevel, message: string, data?: Record<string, unknown>) {
+    this.write(level, { message, ...data })
+
+    if (this.server && this.clientLevel && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.clientLevel)) {
+      // A failed notification must not fail the tool that logged it
+      this.server.server.sendLoggingMessage({ level, data: redact({ message, ...data }) }).catch(() => {})
+    }
+  }
+
+  /**
+   * Logs a message from the client, and remembers when each request arrived
+   */
+  received(message: JSONRPCMessage) {
+    const request = JSONRPCRequestSchema.safeParse(message)
+    if (request.success) {
+      this.pendingRequests.set(request.data.id, { method: request.data.method, startedAt: Date.now() })
+      this.write('debug', { event: 'request', method: request.data.method, id: request.data.id })
+    } else if ('method' in message) {
+      this.write('debug', { event: 'notification', method: message.method })
+    }
+  }
+
+  /**
+   * Logs a message to the client. Responses are logged with how long their request took
+   */
+  sent(message: JSONRPCMessage) {
+    const response = JSONRPCResponseSchema.safeParse(message)
+    const error = JSONRPCErrorSchema.safeParse(message)
+    const id = response.success ? response.data.id : error.success ? error.data.id : undefined
+    if (id === undefined) {
+      if ('method' in message) {
+        this.write('debug', { event: 'sent', method: message.method })
+      }
+      return
+    }
+
+    const request = this.pendingRequests.get(id)
+    this.pendingRequests.delete(id)
+    this.write(error.success ? 'warning' : 'info', {
+      event: 'response',
+      method: request?.method,
+      id,
+      durationMs: request ? Date.now() - request.startedAt : undefined,
+      error: error.success ? error.data.error.message : undefined,
+    })
+  }
+
+  private write(level: LoggingLevel, fields: Record<string, unknown>) {
+    const line = JSON.stringify(redact({ level, sessionId: this.sessionId, ...fields }))
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf('error')) {
+      console.error(line)
+    } else if (level === 'warning') {
+      console.warn(line)
+    } else {
+      console.log(line)
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * The second argument passed to tool handlers
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+/**
+ * Returns a function that sends `notifications/progress` for the current request, if the client asked for progress by
+ * sending a progressToken. The notification is sent with the request as its relatedRequestId, so transports with a
+ * stream per request send it on the right stream. Nothing is sent once the request has been cancelled.
+ */
+export function progressReporter(extra: ToolExtra) {
+  const progressToken = extra._meta?.progressToken
+  return async (progress: number, total?: number) => {
+    if (progressToken === undefined || extra.signal.aborted) {
+      return
+    }
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total },
+    })
+  }
+}
@@ -0,0 +1,37 @@
+import type { WebAPICallResult } from '@slack/web-api'
+
+/**
+ * Calls a Slack Web API method with fetch. WebClient can't be passed an AbortSignal, so tools that should stop when
+ * the client cancels the request use this instead, and their requests to Slack are cancelled along with it
+ * @param token - The user's Slack access token
+ * @param method - The API method, e.g. 'conversations.list'
+ * @param params - The method's arguments
+ * @param signal - Cancels the request to Slack when aborted
+ * @returns The method's response
+ * @throws If Slack responds with `ok: false`
+ */
+export async function callSlack<T extends WebAPICallResult>(
+  token: string,
+  method: string,
+  params: Record<string, string | number | boolean>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const resp = await fetch(`https://slack.com/api/${method}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)])),
+    signal,
+  })
+  if (!resp.ok) {
+    throw new Error(`Slack API request failed with ${resp.status}`)
+  }
+
+  const result = (await resp.json()) as T
+  if (!result.ok) {
+    throw new Error(`Slack API error: ${result.error}`)
+  }
+  return result
+}
@@ -1,10 +1,77 @@
 // From https://github.com/modelcontextprotocol/typescript-sdk/blob/77dfb11aadb7f6bca4ffdf6e8e3d628a1d6df3be/src/server/sseEdge.ts
 
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
-import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js'
+import {
+  InitializeRequestSchema,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequestSchema,
+  JSONRPCResponseSchema,
+  RequestId,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@modelcontextprotocol/sdk/types.js'
+import { Logger } from './logger'
 
 const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024 // 4MB
 
+// Proxies close connections that are idle for about 100s, so a comment is sent well before that
+const HEARTBEAT_INTERVAL_MS = 30 * 1000 // 30 seconds
+
+// Clients send the MCP-Protocol-Version header from this version of the protocol onwards
+const PROTOCOL_VERSION_HEADER_SINCE = '2025-06-18'
+
+/**
+ * Reads the request body as text, stopping as soon as it grows past `maxBytes`. The Content-Length header can't be
+ * relied on, since chunked requests don't send one. Returns null if the body is too large.
+ */
+async function readRequestBody(req: Request, maxBytes: number): Promise<string | null> {
+  if (!req.body) {
+    return ''
+  }
+
+  const reader = req.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new TextDecoder().decode(body)
+}
+
+export interface SSEEdgeTransportOptions {
+  /**
+   * The largest message body accepted, in bytes. Defaults to 4MB
+   */
+  maxMessageSize?: number
+
+  /**
+   * How often a `: ping` comment is sent on the SSE stream to keep it open, in milliseconds. 0 turns it off
+   */
+  heartbeatIntervalMs?: number
+
+  /**
+   * Logs each message's method, id and duration, instead of its payload
+   */
+  logger?: Logger
+}
+
 /**
  * This transport is compatible with Cloudflare Workers and other edge environments
  */
@@ -12,6 +79,28 @@ export class SSEEdgeTransport implements Transport {
   private controller: ReadableStreamDefaultController<Uint8Array> | null = null
   readonly stream: ReadableStream<Uint8Array>
   private closed = false
+  private initializeRequestId?: RequestId
+  private maxMessageSize: number
+  private heartbeatIntervalMs: number
+  private heartbeat: ReturnType<typeof setInterval> | null = null
+  private logger?: Logger
+
+  /**
+   * When the last message was received, used to close idle sessions
+   */
+  lastActivityAt = Date.now()
+
+  /**
+   * The protocol version negotiated during initialization
+   */
+  protocolVersion?: string
+
+  /**
+   * Whether the stream has been closed, by the client or by close()
+   */
+  get isClosed() {
+    return this.closed
+  }
 
   onclose?: () => void
   onerror?: (error: Error) => void
@@ -23,13 +112,19 @@ export class SSEEdgeTransport implements Transport {
   constructor(
     private messageUrl: string,
     readonly sessionId: string,
+    { maxMessageSize = MAXIMUM_MESSAGE_SIZE, heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS, logger }: SSEEdgeTransportOptions = {},
   ) {
+    this.maxMessageSize = maxMessageSize
+    this.heartbeatIntervalMs = heartbeatIntervalMs
+    this.logger = logger
+
     // Create a readable stream for SSE
     this.stream = new ReadableStream({
       start: (controller) => {
         this.controller = controller
       },
       cancel: () => {
+        clearInterval(this.heartbeat)
         this.closed = true
         this.onclose?.()
       },
@@ -49,6 +144,15 @@ export class SSEEdgeTransport implements Transport {
     // Send the endpoint event
     const endpointMessage = `event: endpoint\ndata: ${encodeURI(this.messageUrl)}?sessionId=${this.sessionId}\n\n`
     this.controller.enqueue(new TextEncoder().encode(endpointMessage))
+
+    // Keep the stream open while the session is idle
+    if (this.heartbeatIntervalMs > 0) {
+      this.heartbeat = setInterval(() => {
+        if (!this.closed) {
+          this.controller?.enqueue(new TextEncoder().encode(': ping\n\n'))
+        }
+      }, this.heartbeatIntervalMs)
+    }
   }
 
   get sseResponse(): Response {
@@ -82,14 +186,17 @@ export class SSEEdgeTransport implements Transport {
         throw new Error(`Unsupported content-type: ${contentType}`)
       }
 
-      // Check if the request body is too large
+      // Check if the request body is too large, both from the header and while reading it
       const contentLength = parseInt(req.headers.get('content-length') || '0', 10)
-      if (contentLength > MAXIMUM_MESSAGE_SIZE) {
-        throw new Error(`Request body too large: ${contentLength} bytes`)
+      const text = contentLength > this.maxMessageSize ? null : await readRequestBody(req, this.maxMessageSize)
+      if (text === null) {
+        return new Response(`Request body too large. Maximum size is ${this.maxMessageSize} bytes`, { status: 413 })
       }
 
-      // Clone the request before reading the body to avoid stream issues
-      const body = await req.json()
+      const body = JSON.parse(text)
+      if (!InitializeRequestSchema.safeParse(body).success) {
+        this.validateProtocolVersion(req.headers.get('mcp-protocol-version'))
+      }
       await this.handleMessage(body)
       return new Response('Accepted', { status: 202 })
     } catch (error) {
@@ -98,6 +205,26 @@ export class SSEEdgeTransport implements Transport {
     }
   }
 
+  /**
+   * Checks the MCP-Protocol-Version header against the version negotiated during initialization
+   */
+  private validateProtocolVersion(header: string | null) {
+    if (header === null) {
+      if (this.protocolVersion && this.protocolVersion >= PROTOCOL_VERSION_HEADER_SINCE) {
+        throw new Error(`MCP-Protocol-Version header is required for protocol version ${this.protocolVersion}`)
+      }
+      return
+    }
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(header)) {
+      throw new Error(`Unsupported protocol version ${header}. Supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`)
+    }
+
+    if (this.protocolVersion && header !== this.protocolVersion) {
+      throw new Error(`MCP-Protocol-Version ${header} does not match the negotiated protocol version ${this.protocolVersion}`)
+    }
+  }
+
   /**
    * Handle a client message, regardless of how it arrived. This can be used to inform the server of messages that arrive via a means different than HTTP POST.
    */
@@ -110,13 +237,21 @@ export class SSEEdgeTransport implements Transport {
       throw error
     }
 
+    const request = JSONRPCRequestSchema.safeParse(parsedMessage)
+    if (request.success && InitializeRequestSchema.safeParse(parsedMessage).success) {
+      this.initializeRequestId = request.data.id
+    }
+
+    this.lastActivityAt = Date.now()
+    this.logger?.received(parsedMessage)
     this.onmessage?.(parsedMessage)
   }
 
   async close(): Promise<void> {
     if (!this.closed && this.controller) {
+      clearInterval(this.heartbeat)
+      // The stream is locked by the response reading it, so it is closed through its controller rather than cancelled
       this.controller.close()
-      this.stream.cancel()
       this.closed = true
       this.onclose?.()
     }
@@ -127,6 +262,13 @@ export class SSEEdgeTransport implements Transport {
       throw new Error('Not connected')
     }
 
+    // Remember the negotiated version so that later requests can be checked against it
+    const response = JSONRPCResponseSchema.safeParse(message)
+    if (response.success && response.data.id === this.initializeRequestId && typeof response.data.result.protocolVersion === 'string') {
+      this.protocolVersion = response.data.result.protocolVersion
+    }
+
+    this.logger?.sent(message)
     const messageText = `event: message\ndata: ${JSON.stringify(message)}\n\n`
     this.controller.enqueue(new TextEncoder().encode(messageText))
   }
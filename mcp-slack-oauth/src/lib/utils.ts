@@ -1,15 +1,46 @@
+/**
+ * Which browser origins may call the server: a list of origins or patterns ('*' allows any origin),
+ * or a function that decides for each origin
+ */
+export type OriginPolicy = (string | RegExp)[] | ((origin: string) => boolean)
+
+/**
+ * Checks the Origin of a request against an origin policy. Browsers always send an Origin with
+ * cross-origin requests, so this keeps other sites away from the server. The server's own origin isn't
+ * trusted unless it is listed: a DNS rebinding attack points the attacker's host name at the server, so
+ * their page's Origin matches the request URL.
+ * @param request - The incoming request
+ * @param allowedOrigins - The origin policy. Defaults to no browser origins
+ * @returns true if the request has no Origin, or its origin is allowed
+ */
+export function isOriginAllowed(request: Request, allowedOrigins: OriginPolicy = []): boolean {
+  const origin = request.headers.get('Origin')
+  if (!origin) {
+    return true
+  }
+
+  if (typeof allowedOrigins === 'function') {
+    return allowedOrigins(origin)
+  }
+
+  return allowedOrigins.some((allowedOrigin) =>
+    typeof allowedOrigin === 'string' ? allowedOrigin === '*' || allowedOrigin === origin : allowedOrigin.test(origin),
+  )
+}
+
 /**
  * Adds CORS headers to a response
  * @param response - The response to add CORS headers to
  * @param request - The original request
+ * @param allowedOrigins - The origin policy, the same one used to accept the request
  * @returns A new Response with CORS headers added
  */
-export function addCorsHeaders(response: Response, request: Request): Response {
+export function addCorsHeaders(response: Response, request: Request, allowedOrigins?: OriginPolicy): Response {
   // Get the Origin header from the request
   const origin = request.headers.get('Origin')
 
-  // If there's no Origin header, return the original response
-  if (!origin) {
+  // If there's no Origin header, or it isn't allowed, return the original response
+  if (!origin || !isOriginAllowed(request, allowedOrigins)) {
     return response
   }
 
@@ -19,10 +50,11 @@ export function addCorsHeaders(response: Response, request: Request): Response {
 
   // Add CORS headers
   newResponse.headers.set('Access-Control-Allow-Origin', origin)
-  newResponse.headers.set('Access-Control-Allow-Methods', '*')
+  newResponse.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
   // Include Authorization explicitly since it's not included in * for security reasons
   newResponse.headers.set('Access-Control-Allow-Headers', 'Authorization, *')
   newResponse.headers.set('Access-Control-Max-Age', '86400') // 24 hours
+  newResponse.headers.append('Vary', 'Origin')
 
   return newResponse
 }